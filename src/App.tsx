@@ -1,22 +1,38 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Navigate, Routes, Route } from 'react-router-dom';
+import CartProvider from './components/CartProvider';
+import FavouritesProvider from './components/FavouritesProvider';
 import Home from './pages/Home';
+import ProductDetail from './pages/ProductDetail';
+import ReviewOrder from './pages/ReviewOrder';
+import Reorder from './pages/Reorder';
+import SharedCart from './pages/SharedCart';
+import Favourites from './pages/Favourites';
+import Checkout from './pages/Checkout';
 import Payment from './pages/Payment';
 import Admin from './pages/Admin';
-import PickupPayment from './pages/PickupPayment';
-import PickupOnlinePayment from './pages/PickupOnlinePayment';
-import DeliveryPayment from './pages/DeliveryPayment';
 
 function App() {
   return (
     <Router>
-      <Routes>
-        <Route path="/" element={<Home />} />
-        <Route path="/payment" element={<Payment />} />
-        <Route path="/pickup-payment" element={<PickupPayment />} />
-        <Route path="/pickup-online-payment" element={<PickupOnlinePayment />} />
-        <Route path="/delivery-payment" element={<DeliveryPayment />} />
-        <Route path="/admin" element={<Admin />} />
-      </Routes>
+      <CartProvider>
+        <FavouritesProvider>
+          <Routes>
+            <Route path="/" element={<Home />} />
+            <Route path="/product/:id" element={<ProductDetail />} />
+            <Route path="/review" element={<ReviewOrder />} />
+            <Route path="/reorder" element={<Reorder />} />
+            <Route path="/c/:code" element={<SharedCart />} />
+            <Route path="/favourites" element={<Favourites />} />
+            <Route path="/payment" element={<Payment />} />
+            <Route path="/checkout" element={<Checkout />} />
+            {/* Old per-fulfilment payment pages, kept so bookmarked links still land in checkout. */}
+            <Route path="/pickup-payment" element={<Navigate to="/checkout" replace />} />
+            <Route path="/pickup-online-payment" element={<Navigate to="/checkout" replace />} />
+            <Route path="/delivery-payment" element={<Navigate to="/checkout" replace />} />
+            <Route path="/admin" element={<Admin />} />
+          </Routes>
+        </FavouritesProvider>
+      </CartProvider>
     </Router>
   );
 }
@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader, ShoppingCart, Upload, X } from 'lucide-react';
+import { fetchCakeOptions, uploadCakeReference } from '../services/customCakeService';
+import { customCakePrice, INSCRIPTION_MAX_LENGTH } from '../lib/customCake';
+import { CakeCustomization, CakeOption, CakeOptionKind, Product } from '../types';
+
+interface CakeConfiguratorProps {
+  product: Product;
+  onAddToCart: (product: Product, customization: CakeCustomization) => void;
+  onClose: () => void;
+}
+
+const OPTION_GROUPS: { kind: CakeOptionKind; label: string }[] = [
+  { kind: 'flavour', label: 'Base Flavour' },
+  { kind: 'size', label: 'Size / Tiers' },
+  { kind: 'frosting', label: 'Frosting Colour' },
+];
+
+type Selection = Record<CakeOptionKind, CakeOption | null>;
+
+export default function CakeConfigurator({ product, onAddToCart, onClose }: CakeConfiguratorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [options, setOptions] = useState<CakeOption[] | null>(null);
+  const [selection, setSelection] = useState<Selection>({ flavour: null, size: null, frosting: null });
+  const [inscription, setInscription] = useState('');
+  const [referenceImage, setReferenceImage] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCakeOptions()
+      .then((data) => {
+        setOptions(data);
+        setSelection({
+          flavour: data.find((option) => option.kind === 'flavour') ?? null,
+          size: data.find((option) => option.kind === 'size') ?? null,
+          frosting: data.find((option) => option.kind === 'frosting') ?? null,
+        });
+      })
+      .catch((err) => {
+        console.error('Error loading cake options:', err);
+        setError('Failed to load cake options. Please try again.');
+      });
+  }, []);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Please select an image file');
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      setError('File size must be less than 5MB');
+      return;
+    }
+
+    setReferenceImage(file);
+    setPreviewUrl(URL.createObjectURL(file));
+    setError(null);
+  };
+
+  const { flavour, size, frosting } = selection;
+  const customization: CakeCustomization | null =
+    flavour && size && frosting
+      ? { flavour, size, frosting, inscription: inscription.trim(), referenceImageUrl: null }
+      : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customization) return;
+
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const referenceImageUrl = referenceImage ? await uploadCakeReference(referenceImage) : null;
+      onAddToCart(product, { ...customization, referenceImageUrl });
+      onClose();
+    } catch (err) {
+      console.error('Error uploading reference image:', err);
+      setError('Failed to upload reference image. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 px-3">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <div>
+            <h2 className="text-lg font-semibold">Customise {product.name}</h2>
+            <p className="text-sm text-gray-500">Design the cake, we'll bake it to order</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-5">
+          {error && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 p-3 rounded-md text-sm">
+              <AlertCircle className="text-red-500 w-4 h-4" />
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          {!options && !error && <Loader className="animate-spin text-amber-600 mx-auto" />}
+
+          {options &&
+            OPTION_GROUPS.map(({ kind, label }) => (
+              <div key={kind}>
+                <p className="text-sm font-semibold text-gray-800 mb-2">{label}</p>
+                <div className="flex flex-wrap gap-2">
+                  {options
+                    .filter((option) => option.kind === kind)
+                    .map((option) => (
+                      <button
+                        key={option.id}
+                        type="button"
+                        onClick={() => setSelection((prev) => ({ ...prev, [kind]: option }))}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm border transition-colors duration-200 ${
+                          selection[kind]?.id === option.id
+                            ? 'border-amber-600 bg-amber-50 text-amber-800'
+                            : 'border-gray-200 text-gray-700 hover:border-amber-300'
+                        }`}
+                      >
+                        {option.swatch && (
+                          <span
+                            className="w-4 h-4 rounded-full border border-gray-300"
+                            style={{ backgroundColor: option.swatch }}
+                          />
+                        )}
+                        {option.label}
+                        {option.priceDelta > 0 && (
+                          <span className="text-xs text-gray-500">+{option.priceDelta}</span>
+                        )}
+                      </button>
+                    ))}
+                </div>
+              </div>
+            ))}
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-2">
+              Message on the cake <span className="font-normal text-gray-500">(optional)</span>
+            </label>
+            <input
+              value={inscription}
+              onChange={(e) => setInscription(e.target.value)}
+              maxLength={INSCRIPTION_MAX_LENGTH}
+              placeholder="Happy Birthday Ali"
+              className="w-full px-3 py-2.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1 text-right">
+              {inscription.length}/{INSCRIPTION_MAX_LENGTH}
+            </p>
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-800 mb-2">
+              Reference image <span className="font-normal text-gray-500">(optional)</span>
+            </p>
+            <div
+              onClick={() => fileInputRef.current?.click()}
+              className="border-2 border-dashed border-amber-300 rounded-lg p-4 text-center cursor-pointer hover:bg-amber-50 transition-colors"
+            >
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              {previewUrl ? (
+                <div>
+                  <img src={previewUrl} alt="Reference" className="max-h-32 mx-auto mb-2 rounded-lg" />
+                  <p className="text-xs text-gray-500">Click to change</p>
+                </div>
+              ) : (
+                <div>
+                  <Upload className="w-6 h-6 text-amber-600 mx-auto mb-1" />
+                  <p className="text-sm text-gray-700">Upload a design you like</p>
+                  <p className="text-xs text-gray-500">PNG, JPG up to 5MB</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between border-t pt-4">
+            <span className="text-xl font-bold text-amber-700">
+              {customization ? customCakePrice(product, customization) : product.price} PKR
+            </span>
+            <button
+              type="submit"
+              disabled={!customization || submitting}
+              className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors duration-200 flex items-center gap-2 disabled:opacity-50"
+            >
+              {submitting ? <Loader size={18} className="animate-spin" /> : <ShoppingCart size={18} />}
+              <span>Add to Cart</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,18 @@
-import { X, Minus, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { X, Minus, Plus, Trash2, Share2, Check } from 'lucide-react';
+import { cartItemName, MAX_LINE_QUANTITY, NOTE_MAX_LENGTH } from '../lib/cart';
+import { describeCustomization } from '../lib/customCake';
+import { nextPriceTier, priceCart, productQuantities } from '../lib/pricing';
+import { cartShareUrl, createCartShare } from '../services/cartShareService';
 import { CartItem } from '../types';
 
 interface CartProps {
   isOpen: boolean;
   onClose: () => void;
   cartItems: CartItem[];
-  onUpdateQuantity: (productId: string, newQuantity: number) => void;
-  onRemoveItem: (productId: string) => void;
+  onUpdateQuantity: (lineId: string, newQuantity: number) => void;
+  onUpdateNote: (lineId: string, note: string) => void;
+  onRemoveItem: (lineId: string) => void;
   onCheckout: () => void;
 }
 
@@ -15,23 +21,30 @@ export default function Cart({
   onClose,
   cartItems,
   onUpdateQuantity,
+  onUpdateNote,
   onRemoveItem,
   onCheckout,
 }: CartProps) {
   if (!isOpen) return null;
 
-  const totalPrice = cartItems.reduce(
-    (sum, item) => sum + item.price * item.quantity,
-    0
-  );
+  const { lines, subtotal: totalPrice } = priceCart(cartItems);
+  const quantities = productQuantities(cartItems);
 
   const handleCheckout = () => {
     if (cartItems.length === 0) return;
 
-    const orderMessage = cartItems
-      .map(
-        (item) =>
-          `${item.name} x${item.quantity} - ${item.price * item.quantity} PKR`
+    const orderMessage = lines
+      .map(({ item, total, percentOff }) =>
+        [
+          `${cartItemName(item)} x${item.quantity} - ${total} PKR${percentOff > 0 ? ` (${percentOff}% off)` : ''}`,
+          ...(item.customization
+            ? describeCustomization(item.customization).map((line) => `  ${line}`)
+            : []),
+          ...(item.customization?.referenceImageUrl
+            ? [`  ${item.customization.referenceImageUrl}`]
+            : []),
+          ...(item.note.trim() ? [`  Note: ${item.note.trim()}`] : []),
+        ].join('\n')
       )
       .join('\n');
 
@@ -68,57 +81,95 @@ export default function Cart({
               </div>
             ) : (
               <div className="space-y-4">
-                {cartItems.map((item) => (
-                  <div
-                    key={item.id}
-                    className="bg-gray-50 rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow duration-200"
-                  >
-                    <div className="flex justify-between items-start mb-3">
-                      <div className="flex-1">
-                        <h3 className="font-semibold text-gray-800">{item.name}</h3>
-                        <p className="text-sm text-gray-600">
-                          {item.price} PKR each
-                        </p>
-                      </div>
-                      <button
-                        onClick={() => onRemoveItem(item.id)}
-                        className="text-red-500 hover:text-red-700 transition-colors duration-200"
-                      >
-                        <Trash2 size={18} />
-                      </button>
-                    </div>
+                {lines.map(({ item, unitPrice, percentOff, total }) => {
+                  const productQuantity = quantities.get(item.id) ?? 0;
+                  const nextTier = nextPriceTier(item.priceTiers, productQuantity);
 
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3 bg-white rounded-lg p-1">
+                  return (
+                    <div
+                      key={item.lineId}
+                      className="bg-gray-50 rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow duration-200"
+                    >
+                      <div className="flex justify-between items-start mb-3">
+                        <div className="flex-1">
+                          <h3 className="font-semibold text-gray-800">{cartItemName(item)}</h3>
+                          <p className="text-sm text-gray-600">
+                            {percentOff > 0 && (
+                              <span className="line-through text-gray-400 mr-1">{item.price}</span>
+                            )}
+                            {unitPrice} PKR each
+                            {percentOff > 0 && (
+                              <span className="ml-1 text-green-700">({percentOff}% off)</span>
+                            )}
+                          </p>
+                          {nextTier && (
+                            <p className="text-xs text-amber-700 mt-0.5">
+                              Buy {nextTier.minQuantity - productQuantity} more to save{' '}
+                              {nextTier.percentOff}%
+                            </p>
+                          )}
+                          {item.customization && (
+                            <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                              {describeCustomization(item.customization).map((line) => (
+                                <li key={line}>{line}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
                         <button
-                          onClick={() =>
-                            onUpdateQuantity(
-                              item.id,
-                              Math.max(1, item.quantity - 1)
-                            )
-                          }
-                          className="p-1 hover:bg-gray-100 rounded transition-colors duration-200"
+                          onClick={() => onRemoveItem(item.lineId)}
+                          className="text-red-500 hover:text-red-700 transition-colors duration-200"
                         >
-                          <Minus size={16} className="text-gray-600" />
+                          <Trash2 size={18} />
                         </button>
-                        <span className="font-medium text-gray-800 w-8 text-center">
-                          {item.quantity}
+                      </div>
+
+                      <input
+                        value={item.note}
+                        onChange={(e) => onUpdateNote(item.lineId, e.target.value)}
+                        maxLength={NOTE_MAX_LENGTH}
+                        placeholder="Add a note, e.g. less sweet"
+                        className="w-full mb-3 px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-md focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                      />
+
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3 bg-white rounded-lg p-1">
+                          <button
+                            onClick={() =>
+                              onUpdateQuantity(
+                                item.lineId,
+                                Math.max(1, item.quantity - 1)
+                              )
+                            }
+                            className="p-1 hover:bg-gray-100 rounded transition-colors duration-200"
+                          >
+                            <Minus size={16} className="text-gray-600" />
+                          </button>
+                          <span className="font-medium text-gray-800 w-8 text-center">
+                            {item.quantity}
+                          </span>
+                          <button
+                            onClick={() =>
+                              onUpdateQuantity(item.lineId, item.quantity + 1)
+                            }
+                            disabled={item.quantity >= MAX_LINE_QUANTITY}
+                            title={
+                              item.quantity >= MAX_LINE_QUANTITY
+                                ? `At most ${MAX_LINE_QUANTITY} per item`
+                                : undefined
+                            }
+                            className="p-1 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-40 disabled:hover:bg-transparent"
+                          >
+                            <Plus size={16} className="text-gray-600" />
+                          </button>
+                        </div>
+                        <span className="font-bold text-amber-700">
+                          {total} PKR
                         </span>
-                        <button
-                          onClick={() =>
-                            onUpdateQuantity(item.id, item.quantity + 1)
-                          }
-                          className="p-1 hover:bg-gray-100 rounded transition-colors duration-200"
-                        >
-                          <Plus size={16} className="text-gray-600" />
-                        </button>
                       </div>
-                      <span className="font-bold text-amber-700">
-                        {item.price * item.quantity} PKR
-                      </span>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
@@ -141,6 +192,7 @@ export default function Cart({
               >
                 Order via WhatsApp
               </button>
+              <ShareCartButton cartItems={cartItems} />
             </div>
           )}
         </div>
@@ -149,3 +201,50 @@ export default function Cart({
   );
 }
 
+// Group orders are put together over WhatsApp, so the link is shared rather than the items.
+function ShareCartButton({ cartItems }: { cartItems: CartItem[] }) {
+  const [sharing, setSharing] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShare = async () => {
+    setSharing(true);
+    setError(null);
+
+    try {
+      const url = cartShareUrl(await createCartShare(cartItems));
+
+      if (navigator.share) {
+        try {
+          await navigator.share({ title: 'My Komugi cart', url });
+        } catch {
+          // Closing the share sheet rejects; nothing to do.
+        }
+        return;
+      }
+
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Error sharing cart:', err);
+      setError('Failed to create a link. Please try again.');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleShare}
+        disabled={sharing}
+        className="w-full flex items-center justify-center gap-2 text-sm font-medium text-amber-700 hover:text-amber-800 disabled:opacity-50"
+      >
+        {linkCopied ? <Check size={16} /> : <Share2 size={16} />}
+        {linkCopied ? 'Link copied' : sharing ? 'Creating link…' : 'Share cart'}
+      </button>
+      {error && <p className="text-xs text-red-600 text-center mt-1">{error}</p>}
+    </div>
+  );
+}
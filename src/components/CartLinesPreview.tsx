@@ -0,0 +1,38 @@
+import { isListed } from '../lib/availability';
+import { StoredCartLine } from '../lib/cartStorage';
+import { Catalog } from '../types';
+
+interface CartLinesPreviewProps {
+  lines: StoredCartLine[];
+  catalog: Catalog;
+}
+
+// Name and availability as the menu stands today; the cart makes the final call when restoring.
+function describeLine(line: StoredCartLine, catalog: Catalog) {
+  const product = catalog.products.find((item) => item.id === line.productId);
+  const variant = product?.variants.find((item) => item.id === line.variantId) ?? null;
+  const name = product
+    ? `${product.name}${variant ? ` - ${variant.label}` : ''}${line.customization ? ' (custom)' : ''}`
+    : 'Retired item';
+  const available = !!product && isListed(product) && (line.variantId === null || !!variant);
+
+  return { name, available };
+}
+
+export default function CartLinesPreview({ lines, catalog }: CartLinesPreviewProps) {
+  return (
+    <ul className="divide-y divide-gray-100 border border-amber-100 rounded-lg text-sm">
+      {lines.map((line) => {
+        const { name, available } = describeLine(line, catalog);
+        return (
+          <li key={line.lineId} className="flex justify-between gap-3 px-3 py-2">
+            <span className={available ? 'text-gray-900' : 'text-gray-400 line-through'}>
+              {name} × {line.quantity}
+            </span>
+            {!available && <span className="text-xs text-gray-500">No longer available</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
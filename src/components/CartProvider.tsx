@@ -0,0 +1,209 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Cart from './Cart';
+import Toast from './Toast';
+import { CartContext } from '../context/CartContext';
+import { useCatalog } from '../hooks/useCatalog';
+import { fetchCakeOptions } from '../services/customCakeService';
+import {
+  cartItemName,
+  cartLineId,
+  createCartItem,
+  createCustomCakeItem,
+  MAX_LINE_QUANTITY,
+} from '../lib/cart';
+import {
+  CART_STORAGE_KEY,
+  hasCustomisedLines,
+  parseStoredCart,
+  readStoredCart,
+  RestoredCart,
+  restoreCart,
+  StoredCartLine,
+  writeStoredCart,
+} from '../lib/cartStorage';
+import { CakeCustomization, CartItem, Catalog, Product, ProductVariant } from '../types';
+
+interface CartProviderProps {
+  children: ReactNode;
+}
+
+const restoreLines = async (lines: StoredCartLine[], catalog: Catalog) =>
+  restoreCart(lines, catalog, hasCustomisedLines(lines) ? await fetchCakeOptions() : []);
+
+const describeChanges = ({ removed, repriced }: RestoredCart) =>
+  [
+    ...(removed === 1 ? ['1 item is no longer available and was removed from your cart.'] : []),
+    ...(removed > 1
+      ? [`${removed} items are no longer available and were removed from your cart.`]
+      : []),
+    ...(repriced.length > 0 ? [`Prices updated for ${repriced.join(', ')}.`] : []),
+  ].join(' ');
+
+// Owns the cart for every route so the menu and product pages share one basket. The cart
+// is saved to localStorage, restored against the live catalog and kept in sync across tabs.
+export default function CartProvider({ children }: CartProviderProps) {
+  const navigate = useNavigate();
+  const { catalog } = useCatalog();
+  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  // Nothing is written back until the saved cart has been restored, or it would be wiped.
+  const [restored, setRestored] = useState(false);
+  const [isCartOpen, setIsCartOpen] = useState(false);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!catalog || restored) return;
+
+    restoreLines(readStoredCart(), catalog)
+      .then((result) => {
+        // Keep anything added while the catalog was still loading.
+        setCartItems((prevItems) => [
+          ...result.items,
+          ...prevItems.filter((item) => !result.items.some((line) => line.lineId === item.lineId)),
+        ]);
+        const changes = describeChanges(result);
+        if (changes) setToastMessage(changes);
+      })
+      .catch((err) => console.error('Error restoring cart:', err))
+      .finally(() => setRestored(true));
+  }, [catalog, restored]);
+
+  useEffect(() => {
+    if (restored) writeStoredCart(cartItems);
+  }, [cartItems, restored]);
+
+  useEffect(() => {
+    if (!catalog || !restored) return;
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== CART_STORAGE_KEY) return;
+
+      restoreLines(parseStoredCart(e.newValue), catalog)
+        .then((result) => setCartItems(result.items))
+        .catch((err) => console.error('Error syncing cart:', err));
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [catalog, restored]);
+
+  const addToCart = (product: Product, variant: ProductVariant | null) => {
+    const lineId = cartLineId(product.id, variant?.id ?? null);
+    const newItem = createCartItem(product, variant);
+
+    setCartItems((prevItems) => {
+      const existingItem = prevItems.find((item) => item.lineId === lineId);
+      if (existingItem) {
+        return prevItems.map((item) =>
+          item.lineId === lineId
+            ? { ...item, quantity: Math.min(MAX_LINE_QUANTITY, item.quantity + 1) }
+            : item
+        );
+      } else {
+        return [...prevItems, newItem];
+      }
+    });
+    setToastMessage(`${cartItemName(newItem)} added to cart!`);
+  };
+
+  const addCustomCake = (product: Product, customization: CakeCustomization) => {
+    setCartItems((prevItems) => [...prevItems, createCustomCakeItem(product, customization)]);
+    setToastMessage(`Custom ${product.name} added to cart!`);
+  };
+
+  const updateQuantity = (lineId: string, newQuantity: number) => {
+    setCartItems((prevItems) =>
+      prevItems.map((item) =>
+        item.lineId === lineId
+          ? { ...item, quantity: Math.min(MAX_LINE_QUANTITY, Math.max(1, newQuantity)) }
+          : item
+      )
+    );
+  };
+
+  const updateNote = (lineId: string, note: string) => {
+    setCartItems((prevItems) =>
+      prevItems.map((item) => (item.lineId === lineId ? { ...item, note } : item))
+    );
+  };
+
+  const removeItem = (lineId: string) => {
+    setCartItems((prevItems) => prevItems.filter((item) => item.lineId !== lineId));
+  };
+
+  // Adds lines from a previous order or a shared cart at today's prices, merging with lines
+  // already in the cart.
+  const addLines = async (lines: StoredCartLine[]) => {
+    if (!catalog) throw new Error('Catalog not loaded');
+
+    const result = await restoreLines(lines, catalog);
+
+    setCartItems((prevItems) => {
+      const merged = prevItems.map((item) => {
+        const match = result.items.find((line) => line.lineId === item.lineId);
+        return match
+          ? { ...item, quantity: Math.min(MAX_LINE_QUANTITY, item.quantity + match.quantity) }
+          : item;
+      });
+      return [
+        ...merged,
+        ...result.items.filter((line) => !prevItems.some((item) => item.lineId === line.lineId)),
+      ];
+    });
+
+    const skipped =
+      result.removed === 1
+        ? '1 item is no longer available and was skipped.'
+        : result.removed > 1
+          ? `${result.removed} items are no longer available and were skipped.`
+          : '';
+    setToastMessage(
+      result.items.length === 0
+        ? 'None of these items are available right now.'
+        : [`Added ${result.items.length} ${result.items.length === 1 ? 'item' : 'items'} to your cart.`, skipped]
+            .filter(Boolean)
+            .join(' ')
+    );
+    if (result.items.length > 0) setIsCartOpen(true);
+  };
+
+  const clearCart = useCallback(() => setCartItems([]), []);
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  const totalItems = cartItems.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <CartContext.Provider
+      value={{
+        cartItems,
+        restored,
+        totalItems,
+        addToCart,
+        addCustomCake,
+        updateQuantity,
+        updateNote,
+        removeItem,
+        clearCart,
+        addLines,
+        openCart: () => setIsCartOpen(true),
+      }}
+    >
+      {children}
+
+      <Cart
+        isOpen={isCartOpen}
+        onClose={() => setIsCartOpen(false)}
+        cartItems={cartItems}
+        onUpdateQuantity={updateQuantity}
+        onUpdateNote={updateNote}
+        onRemoveItem={removeItem}
+        onCheckout={() => {
+          setIsCartOpen(false);
+          navigate('/checkout');
+        }}
+      />
+
+      {toastMessage && <Toast message={toastMessage} onClose={dismissToast} />}
+    </CartContext.Provider>
+  );
+}
@@ -0,0 +1,36 @@
+import { AlertTriangle, Leaf } from 'lucide-react';
+import { ALLERGEN_LABELS, DIETARY_LABELS } from '../lib/dietary';
+import { ProductDetails } from '../types';
+
+interface DietaryBadgesProps {
+  details: Pick<ProductDetails, 'allergens' | 'dietary'>;
+  className?: string;
+}
+
+export default function DietaryBadges({ details, className = '' }: DietaryBadgesProps) {
+  if (details.allergens.length === 0 && details.dietary.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1.5 ${className}`}>
+      {details.dietary.map((label) => (
+        <span
+          key={label}
+          className="inline-flex items-center gap-1 bg-green-50 text-green-800 text-xs font-medium px-2 py-0.5 rounded-full"
+        >
+          <Leaf size={12} />
+          {DIETARY_LABELS[label]}
+        </span>
+      ))}
+      {details.allergens.map((allergen) => (
+        <span
+          key={allergen}
+          title={`Contains ${ALLERGEN_LABELS[allergen].toLowerCase()}`}
+          className="inline-flex items-center gap-1 bg-red-50 text-red-700 text-xs font-medium px-2 py-0.5 rounded-full"
+        >
+          <AlertTriangle size={12} />
+          {ALLERGEN_LABELS[allergen]}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { Heart } from 'lucide-react';
+import { useFavourites } from '../hooks/useFavourites';
+import { Product } from '../types';
+
+interface FavouriteButtonProps {
+  product: Product;
+  className?: string;
+}
+
+export default function FavouriteButton({ product, className = '' }: FavouriteButtonProps) {
+  const { isFavourite, toggleFavourite } = useFavourites();
+  const favourite = isFavourite(product.id);
+
+  return (
+    <button
+      onClick={() => toggleFavourite(product.id)}
+      aria-pressed={favourite}
+      title={favourite ? 'Remove from favourites' : 'Add to favourites'}
+      className={`p-2 rounded-full bg-white/90 shadow hover:bg-white transition-colors duration-200 ${className}`}
+    >
+      <Heart size={20} className={favourite ? 'text-red-500 fill-red-500' : 'text-gray-600'} />
+    </button>
+  );
+}
@@ -0,0 +1,44 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { FavouritesContext } from '../context/FavouritesContext';
+import { syncFavourite } from '../services/favouriteService';
+import { FAVOURITES_STORAGE_KEY, parseFavourites, readFavourites, writeFavourites } from '../lib/favourites';
+
+interface FavouritesProviderProps {
+  children: ReactNode;
+}
+
+// Favourites are kept in localStorage, in sync across tabs, and mirrored to the server so the
+// admin screen can count them.
+export default function FavouritesProvider({ children }: FavouritesProviderProps) {
+  const [favouriteIds, setFavouriteIds] = useState(readFavourites);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === FAVOURITES_STORAGE_KEY) setFavouriteIds(parseFavourites(e.newValue));
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const isFavourite = (productId: string) => favouriteIds.includes(productId);
+
+  const toggleFavourite = (productId: string) => {
+    const favourite = !isFavourite(productId);
+    const next = favourite
+      ? [productId, ...favouriteIds]
+      : favouriteIds.filter((id) => id !== productId);
+
+    setFavouriteIds(next);
+    writeFavourites(next);
+    syncFavourite(productId, favourite).catch((err) =>
+      console.error('Error syncing favourite:', err)
+    );
+  };
+
+  return (
+    <FavouritesContext.Provider value={{ favouriteIds, isFavourite, toggleFavourite }}>
+      {children}
+    </FavouritesContext.Provider>
+  );
+}
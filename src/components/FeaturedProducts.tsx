@@ -1,45 +1,27 @@
+import { useEffect, useState } from 'react';
+import { Loader } from 'lucide-react';
 import ProductCard from './ProductCard';
-import { Product } from '../types';
+import { useCatalog } from '../hooks/useCatalog';
+import { fetchBestsellerIds } from '../services/catalogService';
+import { FEATURED_LIMIT, pickFeatured } from '../lib/featured';
+import { Product, ProductVariant } from '../types';
 
 interface FeaturedProductsProps {
-  onAddToCart: (product: Product) => void;
+  onAddToCart: (product: Product, variant: ProductVariant | null) => void;
 }
 
 export default function FeaturedProducts({ onAddToCart }: FeaturedProductsProps) {
-  const featuredProducts: Product[] = [
-    {
-      id: 'featured-1',
-      name: 'Japanese Cheesecake - 6 inch',
-      price: 1600,
-      description: 'Light and fluffy Japanese-style cheesecake with a delicate texture',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.21.35_pm.jpeg',
-    },
-    {
-      id: 'featured-2',
-      name: 'Chocolate Chiffon Cake',
-      price: 1300,
-      description: 'Light and airy chocolate chiffon cake with rich cocoa flavor',
-      category: 'Chiffon Cake',
-      image: 'whatsapp_image_2025-12-27_at_11.321.481_pm.jpeg',
-    },
-    {
-      id: 'featured-3',
-      name: 'Baked Cheesecake Sticks - 12 pcs',
-      price: 1700,
-      description: 'Bite-sized cheesecake portions, perfect for sharing',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.26.33_pm.jpeg',
-    },
-    {
-      id: 'featured-4',
-      name: 'New York Cheesecake - 6 inch',
-      price: 1700,
-      description: 'Classic creamy New York style cheesecake with perfect texture',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.25.02_pm.jpeg',
-    },
-  ];
+  const { catalog, loading, error } = useCatalog();
+  const [bestsellerIds, setBestsellerIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Ask for extra ids because some bestsellers may be unavailable today.
+    fetchBestsellerIds(FEATURED_LIMIT * 2)
+      .then(setBestsellerIds)
+      .catch((err) => console.error('Error loading bestsellers:', err));
+  }, []);
+
+  const featuredProducts = pickFeatured(catalog?.products ?? [], bestsellerIds);
 
   return (
     <section className="py-16 bg-white">
@@ -50,6 +32,9 @@ export default function FeaturedProducts({ onAddToCart }: FeaturedProductsProps)
             Discover our most popular handcrafted baked goods, made fresh daily with premium ingredients
           </p>
         </div>
+        {loading && <Loader className="animate-spin text-amber-600 mx-auto" />}
+        {error && <p className="text-center text-red-700">{error}</p>}
+
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
           {featuredProducts.map((product) => (
             <ProductCard key={product.id} product={product} onAddToCart={onAddToCart} />
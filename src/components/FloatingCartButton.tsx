@@ -0,0 +1,20 @@
+import { ShoppingCart } from 'lucide-react';
+import { useCart } from '../hooks/useCart';
+
+export default function FloatingCartButton() {
+  const { totalItems, openCart } = useCart();
+
+  if (totalItems === 0) return null;
+
+  return (
+    <button
+      onClick={openCart}
+      className="fixed bottom-6 right-6 bg-amber-600 text-white p-4 rounded-full shadow-2xl hover:bg-amber-700 transition-all duration-200 transform hover:scale-110 z-40 md:hidden"
+    >
+      <ShoppingCart size={24} />
+      <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs font-bold rounded-full h-6 w-6 flex items-center justify-center">
+        {totalItems}
+      </span>
+    </button>
+  );
+}
@@ -1,133 +1,73 @@
-import { useState } from 'react';
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Loader, Search, X } from 'lucide-react';
 import ProductCard from './ProductCard';
-import { Product } from '../types';
+import { useCatalog } from '../hooks/useCatalog';
+import { CUSTOMISED_CATEGORY_ID } from '../services/catalogService';
+import { isListed } from '../lib/availability';
+import {
+  ALL_CATEGORIES,
+  applyMenuFilters,
+  hasMenuFilters,
+  MenuFilters,
+  MenuSort,
+  parseMenuFilters,
+  SORT_OPTIONS,
+  writeMenuFilters,
+} from '../lib/menuFilters';
+import { Product, ProductVariant } from '../types';
 
 interface MenuSectionProps {
-  onAddToCart: (product: Product) => void;
+  onAddToCart: (product: Product, variant: ProductVariant | null) => void;
 }
 
 export default function MenuSection({ onAddToCart }: MenuSectionProps) {
-  const [selectedCategory, setSelectedCategory] = useState<string>('All');
-
-  const allProducts: Product[] = [
-    {
-      id: 'cheese-1',
-      name: 'Japanese Cheesecake - 6 inch',
-      price: 1600,
-      description: 'Light and fluffy Japanese-style cheesecake',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.21.35_pm.jpeg',
-    },
-    {
-      id: 'cheese-2',
-      name: 'New York Cheesecake - 6 inch',
-      price: 1700,
-      description: 'Classic creamy New York style cheesecake',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.25.02_pm.jpeg',
-    },
-    {
-      id: 'cheese-3',
-      name: 'New York Cheesecake - 8 inch',
-      price: 3400,
-      description: 'Classic creamy New York style cheesecake',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.25.02_pm.jpeg',
-    },
-    {
-      id: 'cheese-4',
-      name: 'Baked Cheesecake Sticks - 12 pcs',
-      price: 1700,
-      description: 'Bite-sized cheesecake portions',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.26.33_pm.jpeg',
-    },
-    {
-      id: 'cheese-5',
-      name: 'Matcha Cheesecake',
-      price: 2200,
-      description: 'Japanese green tea cheesecake blend',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.32.24_pm.jpeg',
-    },
-    {
-      id: 'cheese-6',
-      name: 'Strawberry Cheesecake',
-      price: 2000,
-      description: 'Fresh strawberry and creamy cheesecake',
-      category: 'Cheesecake',
-      image: '/whatsapp_image_2025-12-27_at_11.32.48_pm.jpeg',
-    },
-    {
-      id: 'chiffon-1',
-      name: 'Vanilla Chiffon Cake',
-      price: 1100,
-      description: 'Light and airy vanilla chiffon cake',
-      category: 'Chiffon Cake',
-          image: '/whatsapp_image_2025-12-27_at_11.30.02_pm.jpeg',
-    },
-    {
-      id: 'chiffon-2',
-      name: 'Chocolate Chiffon Cake',
-      price: 1300,
-      description: 'Light and airy chocolate chiffon cake',
-      category: 'Chiffon Cake',
-      image: 'whatsapp_image_2025-12-27_at_11.321.481_pm.jpeg',
-    },
-    {
-      id: 'chiffon-3',
-      name: 'Matcha Chiffon Cake',
-      price: 1500,
-      description: 'Japanese green tea chiffon cake',
-      category: 'Chiffon Cake',
-      image: 'whatsapp_image_2025-12-27_at_11.322.482_pm.jpeg',},
-    {
-      id: 'chiffon-4',
-      name: 'Marble Chiffon Cake',
-      price: 1300,
-      description: 'Vanilla and chocolate swirled chiffon cake',
-      category: 'Chiffon Cake',
-       image: 'whatsapp_image_2025-12-27_at_11.323.483_pm.jpeg',    },
-    {
-      id: 'brownie-1',
-      name: 'Chocolate Brownies - 16 pcs',
-      price: 2100,
-      description: 'Rich and fudgy chocolate brownies',
-      category: 'Brownies',
-        image: 'whatsapp_image_2025-12-27_at_11.324.484_pm.jpeg',    
-    },
-    {
-      id: 'whipped-1',
-      name: 'Vanilla Whipped Cream Cake',
-      price: 1400,
-      description: 'Soft vanilla cake with whipped cream frosting',
-      category: 'Whipped Cream Cake',
-  image: 'whatsapp_image_2025-12-27_at_11.325.485_pm.jpeg',        },
-    {
-      id: 'whipped-2',
-      name: 'Chocolate Whipped Cream Cake',
-      price: 1600,
-      description: 'Soft chocolate cake with whipped cream frosting',
-      category: 'Whipped Cream Cake',
-  image: 'whatsapp_image_2025-12-27_at_11.326.486_pm.jpeg',        },
-    {
-      id: 'whipped-3',
-      name: 'Matcha Whipped Cream Cake',
-      price: 1800,
-      description: 'Soft matcha cake with whipped cream frosting',
-      category: 'Whipped Cream Cake',
-  image: 'whatsapp_image_2025-12-27_at_11.327.487_pm.jpeg',        },
+  const sectionRef = useRef<HTMLElement>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseMenuFilters(searchParams);
+
+  const { catalog, loading, error } = useCatalog();
+
+  // Deep links from Instagram or WhatsApp land on the filtered menu, not the hero.
+  useEffect(() => {
+    if (catalog && hasMenuFilters(new URLSearchParams(window.location.search))) {
+      sectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [catalog]);
+
+  const updateFilters = (changes: Partial<MenuFilters>, replace = false) => {
+    setSearchParams(writeMenuFilters(searchParams, { ...filters, ...changes }), { replace });
+  };
+
+  const toggleTag = (tag: string) => {
+    updateFilters({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter((t) => t !== tag)
+        : [...filters.tags, tag],
+    });
+  };
+
+  const allProducts = (catalog?.products ?? []).filter(
+    (product) => product.categoryId !== CUSTOMISED_CATEGORY_ID && isListed(product)
+  );
+
+  const categories = [
+    ALL_CATEGORIES,
+    ...(catalog?.categories ?? [])
+      .filter((category) => category.id !== CUSTOMISED_CATEGORY_ID)
+      .map((category) => category.name),
   ];
 
-  const categories = ['All', 'Cheesecake', 'Chiffon Cake', 'Brownies', 'Whipped Cream Cake'];
+  const tags = [...new Set(allProducts.flatMap((product) => product.tags))].sort();
 
-  const filteredProducts =
-    selectedCategory === 'All'
-      ? allProducts
-      : allProducts.filter((product) => product.category === selectedCategory);
+  const filteredProducts = applyMenuFilters(allProducts, filters);
 
   return (
-    <section id="menu" className="py-16 bg-gradient-to-br from-orange-50 via-amber-50 to-orange-50">
+    <section
+      ref={sectionRef}
+      id="menu"
+      className="py-16 bg-gradient-to-br from-orange-50 via-amber-50 to-orange-50 scroll-mt-16"
+    >
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="text-center mb-12">
           <h2 className="text-4xl font-bold text-amber-900 mb-4">Our Menu</h2>
@@ -135,13 +75,37 @@ export default function MenuSection({ onAddToCart }: MenuSectionProps) {
             Explore our complete collection of handcrafted baked goods
           </p>
 
+          <div className="flex flex-col sm:flex-row gap-3 max-w-2xl mx-auto mb-6">
+            <div className="relative flex-1">
+              <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="search"
+                value={filters.query}
+                onChange={(e) => updateFilters({ query: e.target.value }, true)}
+                placeholder="Search cakes, flavours…"
+                className="w-full pl-10 pr-4 py-2.5 rounded-full border border-amber-200 bg-white focus:ring-2 focus:ring-amber-500 focus:outline-none"
+              />
+            </div>
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as MenuSort })}
+              className="px-4 py-2.5 rounded-full border border-amber-200 bg-white text-gray-700 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="flex flex-wrap justify-center gap-3">
             {categories.map((category) => (
               <button
                 key={category}
-                onClick={() => setSelectedCategory(category)}
+                onClick={() => updateFilters({ category })}
                 className={`px-6 py-2 rounded-full font-medium transition-all duration-200 ${
-                  selectedCategory === category
+                  filters.category === category
                     ? 'bg-amber-600 text-white shadow-lg scale-105'
                     : 'bg-white text-gray-700 hover:bg-amber-100 hover:text-amber-700'
                 }`}
@@ -150,8 +114,44 @@ export default function MenuSection({ onAddToCart }: MenuSectionProps) {
               </button>
             ))}
           </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors duration-200 ${
+                    filters.tags.includes(tag)
+                      ? 'bg-amber-800 text-white'
+                      : 'bg-amber-100/70 text-amber-900 hover:bg-amber-200'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
+        {loading && <Loader className="animate-spin text-amber-600 mx-auto" />}
+        {error && <p className="text-center text-red-700">{error}</p>}
+
+        {catalog && filteredProducts.length === 0 && (
+          <div className="text-center text-gray-600">
+            <p className="mb-3">No treats match your search.</p>
+            <button
+              onClick={() =>
+                updateFilters({ category: ALL_CATEGORIES, query: '', tags: [], sort: 'featured' })
+              }
+              className="inline-flex items-center gap-1 text-amber-700 font-medium hover:text-amber-800"
+            >
+              <X size={16} />
+              Clear filters
+            </button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
           {filteredProducts.map((product) => (
             <ProductCard key={product.id} product={product} onAddToCart={onAddToCart} />
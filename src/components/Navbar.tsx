@@ -1,34 +1,37 @@
 import { useState } from 'react';
-import { ShoppingCart, Menu, X } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Heart, ShoppingCart, Menu, X } from 'lucide-react';
+import { useCart } from '../hooks/useCart';
+import { useFavourites } from '../hooks/useFavourites';
 
-interface NavbarProps {
-  cartItemsCount: number;
-  onCartClick: () => void;
-}
-
-export default function Navbar({ cartItemsCount, onCartClick }: NavbarProps) {
+export default function Navbar() {
+  const navigate = useNavigate();
+  const { totalItems: cartItemsCount, openCart: onCartClick } = useCart();
+  const { favouriteIds } = useFavourites();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
   const scrollToSection = (sectionId: string) => {
     const element = document.getElementById(sectionId);
     if (element) {
       element.scrollIntoView({ behavior: 'smooth' });
-      setIsMenuOpen(false);
+    } else {
+      navigate({ pathname: '/', hash: sectionId });
     }
+    setIsMenuOpen(false);
   };
 
   return (
     <nav className="fixed top-0 w-full bg-white shadow-md z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
-          <div className="flex-shrink-0 flex items-center space-x-3">
+          <Link to="/" className="flex-shrink-0 flex items-center space-x-3">
             <img
               src="/whatsapp_image_2025-12-28_at_11.15.04_pm.jpeg"
               alt="Komugi by Narumi Logo"
               className="w-10 h-10 rounded-full object-cover border-2 border-amber-700"
             />
             <h1 className="text-xl font-bold text-amber-900">Komugi</h1>
-          </div>
+          </Link>
 
           <div className="hidden md:flex space-x-8">
             <button
@@ -49,9 +52,27 @@ export default function Navbar({ cartItemsCount, onCartClick }: NavbarProps) {
             >
               About
             </button>
+            <Link
+              to="/reorder"
+              className="text-sm font-medium text-gray-700 hover:text-amber-700 transition-colors duration-200"
+            >
+              Order again
+            </Link>
           </div>
 
           <div className="flex items-center space-x-4">
+            <Link
+              to="/favourites"
+              className="relative p-2 text-gray-700 hover:text-amber-700 transition-colors duration-200"
+              title="Favourites"
+            >
+              <Heart size={24} />
+              {favouriteIds.length > 0 && (
+                <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">
+                  {favouriteIds.length}
+                </span>
+              )}
+            </Link>
             <button
               onClick={onCartClick}
               className="relative p-2 text-gray-700 hover:text-amber-700 transition-colors duration-200"
@@ -95,6 +116,13 @@ export default function Navbar({ cartItemsCount, onCartClick }: NavbarProps) {
             >
               About
             </button>
+            <Link
+              to="/reorder"
+              onClick={() => setIsMenuOpen(false)}
+              className="block w-full text-left px-3 py-2 text-sm font-medium text-gray-700 hover:bg-amber-50 hover:text-amber-700 rounded-md transition-colors duration-200"
+            >
+              Order again
+            </Link>
           </div>
         </div>
       )}
@@ -1,29 +1,101 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { ShoppingCart } from 'lucide-react';
-import { Product } from '../types';
+import DietaryBadges from './DietaryBadges';
+import FavouriteButton from './FavouriteButton';
+import ResponsiveImage from './ResponsiveImage';
+import StarRating from './StarRating';
+import VariantPicker from './VariantPicker';
+import { LOW_STOCK_THRESHOLD } from '../lib/capacity';
+import { formatAvailableDate, getAvailability } from '../lib/availability';
+import { describePriceTier } from '../lib/pricing';
+import { Product, ProductVariant } from '../types';
 
 interface ProductCardProps {
   product: Product;
-  onAddToCart: (product: Product) => void;
+  onAddToCart: (product: Product, variant: ProductVariant | null) => void;
 }
 
 export default function ProductCard({ product, onAddToCart }: ProductCardProps) {
+  const [selectedVariantId, setSelectedVariantId] = useState(product.variants[0]?.id ?? null);
+
+  const selectedVariant =
+    product.variants.find((variant) => variant.id === selectedVariantId) ?? null;
+  const price = selectedVariant ? selectedVariant.price : product.price;
+  const { available, nextAvailableDate } = getAvailability(product);
+  const soldOut = product.remainingToday === 0;
+  const lowStock =
+    product.remainingToday !== null && !soldOut && product.remainingToday <= LOW_STOCK_THRESHOLD;
+  const canAdd = available && !soldOut;
+
   return (
-    <div className="bg-white rounded-lg shadow-md hover:shadow-xl transition-shadow duration-300 overflow-hidden group">
-      <div className="relative h-48 bg-gradient-to-br from-amber-100 to-orange-100 overflow-hidden">
-        <img
+    <div className="relative bg-white rounded-lg shadow-md hover:shadow-xl transition-shadow duration-300 overflow-hidden group">
+      <Link
+        to={`/product/${product.id}`}
+        className="block relative h-48 bg-gradient-to-br from-amber-100 to-orange-100 overflow-hidden"
+      >
+        <ResponsiveImage
           src={product.image}
           alt={product.name}
-          className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
+          imageSet={product.imageSets[product.image]}
+          sizes="(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+          className={`w-full h-full object-cover group-hover:scale-110 transition-transform duration-300 ${
+            canAdd ? '' : 'grayscale opacity-60'
+          }`}
         />
-      </div>
+        {!available && nextAvailableDate && (
+          <span className="absolute top-3 left-3 bg-amber-700/90 text-white text-xs font-bold px-3 py-1 rounded-full">
+            Coming back on {formatAvailableDate(nextAvailableDate)}
+          </span>
+        )}
+        {available && soldOut && (
+          <span className="absolute top-3 left-3 bg-gray-900/80 text-white text-xs font-bold uppercase tracking-wide px-3 py-1 rounded-full">
+            Sold out today
+          </span>
+        )}
+        {available && lowStock && (
+          <span className="absolute top-3 left-3 bg-red-500 text-white text-xs font-bold px-3 py-1 rounded-full">
+            Only {product.remainingToday} left today
+          </span>
+        )}
+      </Link>
+      <FavouriteButton product={product} className="absolute top-3 right-3" />
       <div className="p-4">
-        <h3 className="text-lg font-semibold text-gray-800 mb-2">{product.name}</h3>
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">
+          <Link to={`/product/${product.id}`} className="hover:text-amber-700 transition-colors duration-200">
+            {product.name}
+          </Link>
+        </h3>
+        {product.rating && (
+          <div className="flex items-center gap-1 text-xs text-gray-500 mb-2">
+            <StarRating rating={product.rating.average} size={14} />
+            <span>
+              {product.rating.average.toFixed(1)} ({product.rating.count})
+            </span>
+          </div>
+        )}
         <p className="text-sm text-gray-600 mb-3 line-clamp-2">{product.description}</p>
+        <DietaryBadges details={product.details} className="mb-3" />
+        {product.priceTiers.length > 0 && (
+          <p className="text-xs font-medium text-green-700 mb-3">
+            {product.priceTiers.map(describePriceTier).join(' · ')}
+          </p>
+        )}
+        {product.variants.length > 0 && (
+          <div className="mb-3">
+            <VariantPicker
+              variants={product.variants}
+              selectedId={selectedVariantId}
+              onSelect={setSelectedVariantId}
+            />
+          </div>
+        )}
         <div className="flex items-center justify-between">
-          <span className="text-xl font-bold text-amber-700">{product.price} PKR</span>
+          <span className="text-xl font-bold text-amber-700">{price} PKR</span>
           <button
-            onClick={() => onAddToCart(product)}
-            className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors duration-200 flex items-center space-x-2 transform hover:scale-105"
+            onClick={() => onAddToCart(product, selectedVariant)}
+            disabled={!canAdd}
+            className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors duration-200 flex items-center space-x-2 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 disabled:hover:bg-amber-600"
           >
             <ShoppingCart size={18} />
             <span>Add</span>
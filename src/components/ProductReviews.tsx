@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { Loader } from 'lucide-react';
+import StarRating from './StarRating';
+import { fetchProductReviews } from '../services/reviewService';
+import { Product, Review } from '../types';
+
+interface ProductReviewsProps {
+  product: Product;
+}
+
+export default function ProductReviews({ product }: ProductReviewsProps) {
+  const [reviews, setReviews] = useState<Review[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProductReviews(product.id)
+      .then(setReviews)
+      .catch((err) => {
+        console.error('Error loading reviews:', err);
+        setError('Reviews are unavailable right now.');
+      });
+  }, [product.id]);
+
+  return (
+    <section className="mt-16">
+      <div className="flex flex-wrap items-baseline gap-3 mb-6">
+        <h2 className="text-2xl font-bold text-amber-900">Reviews</h2>
+        {product.rating && (
+          <span className="flex items-center gap-2 text-gray-600">
+            <StarRating rating={product.rating.average} />
+            {product.rating.average.toFixed(1)} from {product.rating.count}{' '}
+            {product.rating.count === 1 ? 'review' : 'reviews'}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-red-700">{error}</p>}
+      {!reviews && !error && <Loader className="animate-spin text-amber-600" />}
+
+      {reviews?.length === 0 && (
+        <p className="text-gray-600">
+          No reviews yet. Bought this one? Use the review link in your order confirmation email.
+        </p>
+      )}
+
+      <ul className="space-y-6">
+        {reviews?.map((review) => (
+          <li key={review.id} className="border-b border-amber-100 pb-6">
+            <div className="flex items-center gap-3 mb-2">
+              <StarRating rating={review.rating} size={14} />
+              <span className="font-medium text-gray-900">{review.authorName}</span>
+              <span className="text-sm text-gray-500">
+                {new Date(review.createdAt).toLocaleDateString('en-PK', {
+                  day: 'numeric',
+                  month: 'short',
+                  year: 'numeric',
+                })}
+              </span>
+            </div>
+            {review.body && <p className="text-gray-700 whitespace-pre-line">{review.body}</p>}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
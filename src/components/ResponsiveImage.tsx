@@ -0,0 +1,48 @@
+import { ImageVariant, ResponsiveImageSet } from '../types';
+
+interface ResponsiveImageProps {
+  src: string;
+  alt: string;
+  imageSet?: ResponsiveImageSet;
+  sizes: string;
+  className?: string;
+  eager?: boolean;
+}
+
+const toSrcSet = (variants: ImageVariant[]) =>
+  variants.map((variant) => `${variant.url} ${variant.width}w`).join(', ');
+
+export default function ResponsiveImage({
+  src,
+  alt,
+  imageSet,
+  sizes,
+  className = '',
+  eager = false,
+}: ResponsiveImageProps) {
+  const img = (
+    <img
+      src={src}
+      alt={alt}
+      loading={eager ? 'eager' : 'lazy'}
+      decoding="async"
+      className={`bg-cover bg-center ${className}`}
+      // The blurred placeholder sits behind the photo until it has loaded.
+      style={imageSet ? { backgroundImage: `url(${imageSet.placeholder})` } : undefined}
+    />
+  );
+
+  if (!imageSet) return img;
+
+  return (
+    <picture className="contents">
+      {imageSet.avif.length > 0 && (
+        <source type="image/avif" srcSet={toSrcSet(imageSet.avif)} sizes={sizes} />
+      )}
+      {imageSet.webp.length > 0 && (
+        <source type="image/webp" srcSet={toSrcSet(imageSet.webp)} sizes={sizes} />
+      )}
+      {img}
+    </picture>
+  );
+}
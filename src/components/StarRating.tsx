@@ -0,0 +1,38 @@
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  onChange?: (rating: number) => void;
+}
+
+export default function StarRating({ rating, size = 16, onChange }: StarRatingProps) {
+  return (
+    <span className="inline-flex items-center gap-0.5" aria-label={`${rating} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((value) => {
+        const star = (
+          <Star
+            size={size}
+            className={
+              value <= Math.round(rating) ? 'text-amber-500 fill-amber-500' : 'text-gray-300'
+            }
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange(value)}
+            className="p-0.5 hover:scale-110 transition-transform"
+            aria-label={`${value} star${value > 1 ? 's' : ''}`}
+          >
+            {star}
+          </button>
+        ) : (
+          <span key={value}>{star}</span>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,30 @@
+import { ProductVariant } from '../types';
+
+interface VariantPickerProps {
+  variants: ProductVariant[];
+  selectedId: string | null;
+  onSelect: (variantId: string) => void;
+  size?: 'sm' | 'md';
+}
+
+export default function VariantPicker({ variants, selectedId, onSelect, size = 'sm' }: VariantPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {variants.map((variant) => (
+        <button
+          key={variant.id}
+          onClick={() => onSelect(variant.id)}
+          className={`rounded-full font-medium transition-colors duration-200 ${
+            size === 'sm' ? 'px-3 py-1 text-xs' : 'px-4 py-2 text-sm'
+          } ${
+            variant.id === selectedId
+              ? 'bg-amber-600 text-white'
+              : 'bg-amber-50 text-amber-800 hover:bg-amber-100'
+          }`}
+        >
+          {variant.label}
+        </button>
+      ))}
+    </div>
+  );
+}
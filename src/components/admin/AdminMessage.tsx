@@ -0,0 +1,31 @@
+import { AlertCircle, CheckCircle } from 'lucide-react';
+
+export interface AdminMessageState {
+  type: 'success' | 'error';
+  text: string;
+}
+
+interface AdminMessageProps {
+  message: AdminMessageState;
+}
+
+export default function AdminMessage({ message }: AdminMessageProps) {
+  return (
+    <div
+      className={`flex items-center gap-3 p-4 rounded-lg ${
+        message.type === 'success'
+          ? 'bg-green-50 border border-green-200'
+          : 'bg-red-50 border border-red-200'
+      }`}
+    >
+      {message.type === 'success' ? (
+        <CheckCircle className="text-green-600 flex-shrink-0" size={20} />
+      ) : (
+        <AlertCircle className="text-red-600 flex-shrink-0" size={20} />
+      )}
+      <p className={message.type === 'success' ? 'text-green-700' : 'text-red-700'}>
+        {message.text}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { WEEKDAY_LABELS } from '../../lib/availability';
+import { ProductAvailability } from '../../types';
+
+interface AvailabilityFieldsProps {
+  value: ProductAvailability;
+  onChange: (value: ProductAvailability) => void;
+  inputClass: string;
+}
+
+export default function AvailabilityFields({ value, onChange, inputClass }: AvailabilityFieldsProps) {
+  const update = (changes: Partial<ProductAvailability>) => onChange({ ...value, ...changes });
+
+  const toggleDay = (day: number) => {
+    const days = value.days ?? [0, 1, 2, 3, 4, 5, 6];
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b);
+    // Every day selected is stored as "no restriction".
+    update({ days: next.length === 7 ? null : next });
+  };
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <legend className="text-sm font-medium text-gray-700 px-1">Availability</legend>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.hidden}
+          onChange={(e) => update({ hidden: e.target.checked })}
+        />
+        Hide from the storefront
+      </label>
+
+      <div>
+        <p className="text-xs text-gray-500 mb-1">Sold on</p>
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const selected = !value.days || value.days.includes(day);
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={`px-2.5 py-1 rounded-full text-xs font-medium ${
+                  selected ? 'bg-amber-600 text-white' : 'bg-gray-100 text-gray-500'
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Season starts</p>
+          <input
+            type="date"
+            value={value.from ?? ''}
+            onChange={(e) => update({ from: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Season ends</p>
+          <input
+            type="date"
+            value={value.until ?? ''}
+            min={value.from ?? undefined}
+            onChange={(e) => update({ until: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.hideWhenUnavailable}
+          onChange={(e) => update({ hideWhenUnavailable: e.target.checked })}
+        />
+        Hide when unavailable instead of showing "coming back on"
+      </label>
+    </fieldset>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Archive, Check, Pencil, Plus, RotateCcw, X } from 'lucide-react';
+import AdminMessage, { AdminMessageState } from './AdminMessage';
+import { useAdminCatalog } from '../../hooks/useAdminCatalog';
+import {
+  createCategory,
+  reorderRows,
+  setCategoryArchived,
+  slugify,
+  updateCategory,
+} from '../../services/adminCatalogService';
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none';
+
+export default function CategoryManager() {
+  const { catalog, loading, error, reload } = useAdminCatalog();
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<AdminMessageState | null>(null);
+
+  const runAction = async (action: () => Promise<void>, successText: string) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      await action();
+      await reload();
+      setMessage({ type: 'success', text: successText });
+    } catch (err) {
+      console.error('Error:', err);
+      setMessage({ type: 'error', text: 'Failed to save changes. Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600">Loading categories...</div>;
+  }
+
+  if (error || !catalog) {
+    return <AdminMessage message={{ type: 'error', text: error ?? 'Catalog unavailable' }} />;
+  }
+
+  const categories = catalog.categories;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    const id = slugify(name);
+    if (!id) return;
+
+    if (categories.some((category) => category.id === id)) {
+      setMessage({ type: 'error', text: `A category with the ID "${id}" already exists.` });
+      return;
+    }
+
+    runAction(async () => {
+      await createCategory({ id, name }, categories.length + 1);
+      setNewName('');
+    }, `${name} added.`);
+  };
+
+  const handleRename = (id: string) => {
+    const name = editingName.trim();
+    if (!name) return;
+
+    runAction(async () => {
+      await updateCategory({ id, name });
+      setEditingId(null);
+    }, `${name} saved.`);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = categories.map((category) => category.id);
+    const target = index + direction;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    runAction(() => reorderRows('categories', ids), 'Category order saved.');
+  };
+
+  return (
+    <div className="space-y-6">
+      {message && <AdminMessage message={message} />}
+
+      <form onSubmit={handleCreate} className="flex gap-3">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New category name"
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          type="submit"
+          disabled={saving || !slugify(newName)}
+          className="flex items-center gap-2 bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+        >
+          <Plus size={18} />
+          Add Category
+        </button>
+      </form>
+
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {categories.map((category, index) => (
+          <li
+            key={category.id}
+            className={`flex items-center gap-3 px-4 py-3 ${category.archived ? 'bg-gray-50' : ''}`}
+          >
+            <div className="flex-1">
+              {editingId === category.id ? (
+                <input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  className={`${inputClass} w-full`}
+                  autoFocus
+                />
+              ) : (
+                <>
+                  <p className={`font-medium ${category.archived ? 'text-gray-400' : 'text-gray-900'}`}>
+                    {category.name}
+                    {category.archived && <span className="ml-2 text-xs uppercase">Archived</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 font-mono">{category.id}</p>
+                </>
+              )}
+            </div>
+
+            {editingId === category.id ? (
+              <>
+                <button onClick={() => handleRename(category.id)} disabled={saving} className="p-2 text-green-600 hover:bg-green-50 rounded">
+                  <Check size={18} />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded">
+                  <X size={18} />
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={saving || index === 0}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                >
+                  <ArrowUp size={18} />
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={saving || index === categories.length - 1}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                >
+                  <ArrowDown size={18} />
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(category.id);
+                    setEditingName(category.name);
+                  }}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                >
+                  <Pencil size={18} />
+                </button>
+                <button
+                  onClick={() =>
+                    runAction(
+                      () => setCategoryArchived(category.id, !category.archived),
+                      category.archived ? `${category.name} restored.` : `${category.name} archived.`
+                    )
+                  }
+                  disabled={saving}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                  title={category.archived ? 'Restore' : 'Archive'}
+                >
+                  {category.archived ? <RotateCcw size={18} /> : <Archive size={18} />}
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
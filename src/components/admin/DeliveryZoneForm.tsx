@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { normaliseArea } from '../../lib/deliveryZones';
+import { DeliveryZoneInput } from '../../services/adminDeliveryZoneService';
+import { DeliveryZone } from '../../types';
+
+interface DeliveryZoneFormProps {
+  zone: DeliveryZone | null;
+  otherZones: DeliveryZone[];
+  onSave: (input: DeliveryZoneInput) => Promise<void>;
+  onClose: () => void;
+}
+
+const parseAreas = (value: string) =>
+  value
+    .split(',')
+    .map((area) => area.trim())
+    .filter((area) => area !== '');
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none';
+
+export default function DeliveryZoneForm({ zone, otherZones, onSave, onClose }: DeliveryZoneFormProps) {
+  const isNew = zone === null;
+
+  const [name, setName] = useState(zone?.name ?? '');
+  const [areas, setAreas] = useState(zone?.areas.join(', ') ?? '');
+  const [fee, setFee] = useState(zone?.fee ?? 300);
+  const [minOrderTotal, setMinOrderTotal] = useState(zone?.minOrderTotal ?? 0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const parsed = parseAreas(areas);
+    if (parsed.length === 0) {
+      setError('List at least one area or sector.');
+      return;
+    }
+
+    // An address in an area listed twice would land in whichever zone the checkout found first.
+    for (const area of parsed) {
+      const owner = otherZones.find(
+        (other) =>
+          !other.archived && other.areas.some((item) => normaliseArea(item) === normaliseArea(area))
+      );
+      if (owner) {
+        setError(`${area} is already part of ${owner.name}.`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        id: zone?.id ?? null,
+        name: name.trim(),
+        areas: parsed,
+        fee,
+        minOrderTotal,
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error saving delivery zone:', err);
+      setError('Failed to save delivery zone. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 px-3">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {isNew ? 'Add Delivery Zone' : `Edit ${zone.name}`}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 p-3 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Central"
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Areas and sectors</label>
+            <textarea
+              value={areas}
+              onChange={(e) => setAreas(e.target.value)}
+              placeholder="F-6, F-7, Blue Area"
+              rows={3}
+              required
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Separate with commas. An address is in this zone when its area or sector mentions one
+              of these, e.g. "F-7" matches "F-7/4".
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Delivery charge (PKR)</label>
+              <input
+                type="number"
+                min={0}
+                value={fee}
+                onChange={(e) => setFee(Number(e.target.value))}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum order (PKR)</label>
+              <input
+                type="number"
+                min={0}
+                value={minOrderTotal}
+                onChange={(e) => setMinOrderTotal(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            The minimum is the cart subtotal before discounts and the delivery charge.
+          </p>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="flex-1 border py-2 rounded-lg text-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="flex-1 bg-amber-600 text-white py-2 rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : 'Save Delivery Zone'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Archive, Pencil, Plus, RotateCcw } from 'lucide-react';
+import AdminMessage, { AdminMessageState } from './AdminMessage';
+import DeliveryZoneForm from './DeliveryZoneForm';
+import { describeDeliveryZone } from '../../lib/deliveryZones';
+import {
+  DeliveryZoneInput,
+  fetchAllDeliveryZones,
+  saveDeliveryZone,
+  setDeliveryZoneArchived,
+} from '../../services/adminDeliveryZoneService';
+import { DeliveryZone } from '../../types';
+
+export default function DeliveryZoneManager() {
+  const [zones, setZones] = useState<DeliveryZone[] | null>(null);
+  const [editing, setEditing] = useState<DeliveryZone | 'new' | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<AdminMessageState | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setZones(await fetchAllDeliveryZones());
+    } catch (err) {
+      console.error('Error loading delivery zones:', err);
+      setMessage({ type: 'error', text: 'Failed to load delivery zones. Please refresh the page.' });
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSave = async (input: DeliveryZoneInput) => {
+    await saveDeliveryZone(input);
+    await load();
+    setMessage({ type: 'success', text: `${input.name.trim()} saved.` });
+  };
+
+  const toggleArchived = async (zone: DeliveryZone) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      await setDeliveryZoneArchived(zone.id, !zone.archived);
+      await load();
+      setMessage({
+        type: 'success',
+        text: zone.archived ? `Delivering to ${zone.name} again.` : `Stopped delivering to ${zone.name}.`,
+      });
+    } catch (err) {
+      console.error('Error:', err);
+      setMessage({ type: 'error', text: 'Failed to save changes. Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!zones) {
+    if (message) return <AdminMessage message={message} />;
+    return <div className="text-gray-600">Loading delivery zones...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && <AdminMessage message={message} />}
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          Checkout only offers delivery to addresses in an active zone, and charges that zone's fee.
+        </p>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-2 bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors flex-shrink-0"
+        >
+          <Plus size={18} />
+          Add Zone
+        </button>
+      </div>
+
+      {zones.length === 0 ? (
+        <p className="text-gray-600">No delivery zones yet, so delivery is unavailable at checkout.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {zones.map((zone) => (
+            <li
+              key={zone.id}
+              className={`flex items-start gap-3 px-4 py-3 ${zone.archived ? 'bg-gray-50' : ''}`}
+            >
+              <div className="flex-1 text-sm">
+                <p className={`font-semibold ${zone.archived ? 'text-gray-400' : 'text-gray-900'}`}>
+                  {zone.name}
+                  {zone.archived && <span className="ml-2 text-xs uppercase">Off</span>}
+                </p>
+                <p className="text-gray-500">{describeDeliveryZone(zone)}</p>
+                <p className="text-gray-600">{zone.areas.join(', ')}</p>
+              </div>
+
+              <button onClick={() => setEditing(zone)} className="p-2 text-gray-500 hover:bg-gray-100 rounded">
+                <Pencil size={18} />
+              </button>
+              <button
+                onClick={() => toggleArchived(zone)}
+                disabled={saving}
+                className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                title={zone.archived ? 'Switch on' : 'Switch off'}
+              >
+                {zone.archived ? <RotateCcw size={18} /> : <Archive size={18} />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <DeliveryZoneForm
+          zone={editing === 'new' ? null : editing}
+          otherZones={zones.filter((zone) => editing === 'new' || zone.id !== editing.id)}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
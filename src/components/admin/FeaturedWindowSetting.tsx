@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { fetchSetting, saveSetting } from '../../services/settingsService';
+
+const SETTING_KEY = 'featured_window_days';
+const DEFAULT_WINDOW_DAYS = 30;
+
+export default function FeaturedWindowSetting() {
+  const [days, setDays] = useState<number | null>(null);
+  const [saved, setSaved] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSetting(SETTING_KEY)
+      .then((value) => {
+        const windowDays = Number(value) || DEFAULT_WINDOW_DAYS;
+        setDays(windowDays);
+        setSaved(windowDays);
+      })
+      .catch((err) => {
+        console.error('Error loading featured window:', err);
+        setError('Could not load the Featured Products window.');
+      });
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (days === null) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveSetting(
+        SETTING_KEY,
+        String(days),
+        'Number of days of sales used to pick Featured Products'
+      );
+      setSaved(days);
+    } catch (err) {
+      console.error('Error saving featured window:', err);
+      setError('Failed to save. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="flex flex-wrap items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 text-sm text-amber-900"
+    >
+      <span>Featured Products shows pinned items first, then top sellers from the last</span>
+      <input
+        type="number"
+        min={1}
+        max={365}
+        value={days ?? ''}
+        onChange={(e) => setDays(Number(e.target.value))}
+        disabled={days === null}
+        required
+        className="w-20 px-2 py-1 border border-amber-300 rounded bg-white"
+      />
+      <span>days.</span>
+      {days !== saved && (
+        <button
+          type="submit"
+          disabled={saving}
+          className="ml-auto bg-amber-600 text-white px-3 py-1 rounded hover:bg-amber-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+      )}
+      {error && <p className="w-full text-red-700">{error}</p>}
+    </form>
+  );
+}
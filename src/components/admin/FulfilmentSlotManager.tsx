@@ -0,0 +1,302 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Archive, Pencil, Plus, RotateCcw } from 'lucide-react';
+import AdminMessage, { AdminMessageState } from './AdminMessage';
+import {
+  fetchFulfilmentSlotDefinitions,
+  fetchStoreHours,
+  FulfilmentSlotInput,
+  saveFulfilmentSlot,
+  saveStoreHours,
+  setFulfilmentSlotArchived,
+} from '../../services/adminSlotService';
+import { FULFILMENT_OPTIONS, fulfilmentOption } from '../../lib/checkoutConfig';
+import { WEEKDAY_NAMES } from '../../lib/fulfilmentSlots';
+import { Fulfilment, FulfilmentSlotDefinition, StoreHours } from '../../types';
+
+const inputClass =
+  'px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-amber-500 focus:outline-none';
+
+// Only fulfilments that are booked into slots can have them.
+const SLOT_FULFILMENTS = FULFILMENT_OPTIONS.filter((option) => option.slot !== null);
+
+const emptySlot: FulfilmentSlotInput = {
+  id: null,
+  fulfilment: SLOT_FULFILMENTS[0].id,
+  weekday: 1,
+  startsAt: '10:00',
+  endsAt: '12:00',
+  capacity: 10,
+};
+
+const withinHours = (slot: FulfilmentSlotDefinition, hours: StoreHours) =>
+  hours.opensAt !== null &&
+  hours.closesAt !== null &&
+  slot.startsAt >= hours.opensAt &&
+  slot.endsAt <= hours.closesAt;
+
+export default function FulfilmentSlotManager() {
+  const [hours, setHours] = useState<StoreHours[] | null>(null);
+  const [slots, setSlots] = useState<FulfilmentSlotDefinition[] | null>(null);
+  const [slotInput, setSlotInput] = useState<FulfilmentSlotInput>(emptySlot);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<AdminMessageState | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [storeHours, slotDefinitions] = await Promise.all([
+        fetchStoreHours(),
+        fetchFulfilmentSlotDefinitions(),
+      ]);
+      setHours(storeHours);
+      setSlots(slotDefinitions);
+    } catch (err) {
+      console.error('Error loading time slots:', err);
+      setMessage({ type: 'error', text: 'Failed to load time slots. Please refresh the page.' });
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      await action();
+      await load();
+      setMessage({ type: 'success', text: success });
+    } catch (err) {
+      console.error('Error:', err);
+      setMessage({ type: 'error', text: 'Failed to save changes. Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateHours = (weekday: number, changes: Partial<StoreHours>) =>
+    setHours((current) =>
+      current && current.map((day) => (day.weekday === weekday ? { ...day, ...changes } : day))
+    );
+
+  const handleSaveHours = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hours) return;
+
+    if (hours.some((day) => day.opensAt && day.closesAt && day.opensAt >= day.closesAt)) {
+      setMessage({ type: 'error', text: 'Opening time must be before closing time.' });
+      return;
+    }
+
+    run(() => saveStoreHours(hours), 'Store hours saved.');
+  };
+
+  const handleSaveSlot = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (slotInput.startsAt >= slotInput.endsAt) {
+      setMessage({ type: 'error', text: 'A slot must start before it ends.' });
+      return;
+    }
+
+    run(async () => {
+      await saveFulfilmentSlot(slotInput);
+      setSlotInput({ ...emptySlot, fulfilment: slotInput.fulfilment, weekday: slotInput.weekday });
+    }, `${WEEKDAY_NAMES[slotInput.weekday]} ${slotInput.startsAt}–${slotInput.endsAt} saved.`);
+  };
+
+  const toggleArchived = (slot: FulfilmentSlotDefinition) =>
+    run(
+      () => setFulfilmentSlotArchived(slot.id, !slot.archived),
+      slot.archived ? 'Slot switched back on.' : 'Slot switched off.'
+    );
+
+  if (!hours || !slots) {
+    return message ? (
+      <AdminMessage message={message} />
+    ) : (
+      <div className="text-gray-600">Loading time slots...</div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {message && <AdminMessage message={message} />}
+
+      <form onSubmit={handleSaveHours} className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Store hours</h2>
+        <p className="text-sm text-gray-600">
+          Customers are only offered pickup slots and delivery windows that fall inside these hours.
+        </p>
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {hours.map((day) => {
+            const open = day.opensAt !== null;
+            return (
+              <li key={day.weekday} className="flex flex-wrap items-center gap-3 px-4 py-2 text-sm">
+                <span className="w-28 font-medium text-gray-800">{WEEKDAY_NAMES[day.weekday]}</span>
+                <label className="flex items-center gap-2 text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={open}
+                    onChange={(e) =>
+                      updateHours(
+                        day.weekday,
+                        e.target.checked
+                          ? { opensAt: '10:00', closesAt: '20:00' }
+                          : { opensAt: null, closesAt: null }
+                      )
+                    }
+                  />
+                  Open
+                </label>
+                {open && (
+                  <>
+                    <input
+                      type="time"
+                      value={day.opensAt ?? ''}
+                      onChange={(e) => updateHours(day.weekday, { opensAt: e.target.value })}
+                      required
+                      className={inputClass}
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={day.closesAt ?? ''}
+                      onChange={(e) => updateHours(day.weekday, { closesAt: e.target.value })}
+                      required
+                      className={inputClass}
+                    />
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save Hours'}
+        </button>
+      </form>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Pickup slots and delivery windows</h2>
+        <p className="text-sm text-gray-600">
+          Capacity is the number of orders that can be collected or delivered in a slot. Full slots,
+          and slots sooner than the products in a cart need, are hidden at checkout.
+        </p>
+
+        <form
+          onSubmit={handleSaveSlot}
+          className="flex flex-wrap items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 text-sm"
+        >
+          <select
+            value={slotInput.fulfilment}
+            onChange={(e) => setSlotInput({ ...slotInput, fulfilment: e.target.value as Fulfilment })}
+            className={inputClass}
+          >
+            {SLOT_FULFILMENTS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.slot?.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={slotInput.weekday}
+            onChange={(e) => setSlotInput({ ...slotInput, weekday: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {WEEKDAY_NAMES.map((label, weekday) => (
+              <option key={label} value={weekday}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="time"
+            value={slotInput.startsAt}
+            onChange={(e) => setSlotInput({ ...slotInput, startsAt: e.target.value })}
+            required
+            className={inputClass}
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="time"
+            value={slotInput.endsAt}
+            onChange={(e) => setSlotInput({ ...slotInput, endsAt: e.target.value })}
+            required
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={1}
+            value={slotInput.capacity}
+            onChange={(e) => setSlotInput({ ...slotInput, capacity: Number(e.target.value) })}
+            required
+            className={`${inputClass} w-20`}
+          />
+          <span className="text-gray-500">orders</span>
+          <div className="ml-auto flex gap-2">
+            {slotInput.id && (
+              <button
+                type="button"
+                onClick={() => setSlotInput(emptySlot)}
+                className="px-3 py-1 border rounded text-gray-700"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-1 bg-amber-600 text-white px-3 py-1 rounded hover:bg-amber-700 disabled:opacity-50"
+            >
+              {slotInput.id ? 'Save Slot' : <><Plus size={16} /> Add Slot</>}
+            </button>
+          </div>
+        </form>
+
+        {slots.length === 0 ? (
+          <p className="text-gray-600">No time slots yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {slots.map((slot) => (
+              <li
+                key={slot.id}
+                className={`flex items-center gap-3 px-4 py-2 text-sm ${slot.archived ? 'bg-gray-50' : ''}`}
+              >
+                <div className={`flex-1 ${slot.archived ? 'text-gray-400' : 'text-gray-800'}`}>
+                  <span className="font-medium">
+                    {fulfilmentOption(slot.fulfilment).slot?.label} · {WEEKDAY_NAMES[slot.weekday]}
+                  </span>{' '}
+                  {slot.startsAt}–{slot.endsAt} · {slot.capacity} orders
+                  {slot.archived && <span className="ml-2 text-xs uppercase">Off</span>}
+                  {!slot.archived && !withinHours(slot, hours[slot.weekday]) && (
+                    <span className="ml-2 text-xs text-red-600">Outside store hours</span>
+                  )}
+                </div>
+                <button
+                  onClick={() => setSlotInput({ ...slot })}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                >
+                  <Pencil size={18} />
+                </button>
+                <button
+                  onClick={() => toggleArchived(slot)}
+                  disabled={saving}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                  title={slot.archived ? 'Switch on' : 'Switch off'}
+                >
+                  {slot.archived ? <RotateCcw size={18} /> : <Archive size={18} />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { MapPin, Palette, Phone, StickyNote } from 'lucide-react';
+import AdminMessage from './AdminMessage';
+import { fetchKitchenSchedule } from '../../services/adminOrderService';
+import { formatAddress, mapLink } from '../../lib/address';
+import { describeCustomization } from '../../lib/customCake';
+import { fulfilmentOption } from '../../lib/checkoutConfig';
+import { formatSlotDate, formatSlotTime } from '../../lib/fulfilmentSlots';
+import { AdminOrder, Fulfilment } from '../../types';
+
+const SCHEDULE_DAYS = 7;
+
+interface ScheduleSlot {
+  fulfilment: Fulfilment;
+  startsAt: string;
+  endsAt: string;
+  orders: AdminOrder[];
+}
+
+// Orders come back sorted by booked time, so days and windows are built up in order.
+function groupSchedule(orders: AdminOrder[]) {
+  const days = new Map<string, Map<string, ScheduleSlot>>();
+
+  for (const order of orders) {
+    if (!order.fulfilment || !order.fulfilmentStartsAt || !order.fulfilmentEndsAt) continue;
+
+    const day = formatSlotDate(order.fulfilmentStartsAt);
+    const slots = days.get(day) ?? new Map<string, ScheduleSlot>();
+    const key = `${order.fulfilment}|${order.fulfilmentStartsAt}|${order.fulfilmentEndsAt}`;
+    const slot = slots.get(key) ?? {
+      fulfilment: order.fulfilment,
+      startsAt: order.fulfilmentStartsAt,
+      endsAt: order.fulfilmentEndsAt,
+      orders: [],
+    };
+
+    slot.orders.push(order);
+    slots.set(key, slot);
+    days.set(day, slots);
+  }
+
+  return [...days].map(([day, slots]) => ({ day, slots: [...slots] }));
+}
+
+export default function KitchenSchedule() {
+  const [orders, setOrders] = useState<AdminOrder[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchKitchenSchedule(SCHEDULE_DAYS)
+      .then(setOrders)
+      .catch((err) => {
+        console.error('Error loading kitchen schedule:', err);
+        setError('Failed to load the kitchen schedule. Please refresh the page.');
+      });
+  }, []);
+
+  if (error) {
+    return <AdminMessage message={{ type: 'error', text: error }} />;
+  }
+
+  if (!orders) {
+    return <div className="text-gray-600">Loading schedule...</div>;
+  }
+
+  if (orders.length === 0) {
+    return (
+      <div className="text-gray-600">
+        No pickups or deliveries booked for the next {SCHEDULE_DAYS} days.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {groupSchedule(orders).map(({ day, slots }) => (
+        <section key={day}>
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">{day}</h2>
+          <div className="space-y-4">
+            {slots.map(([key, slot]) => (
+              <div key={key} className="border border-gray-200 rounded-lg">
+                <div className="flex justify-between bg-amber-50 px-4 py-2 rounded-t-lg text-sm">
+                  <span className="font-semibold text-amber-900">
+                    {fulfilmentOption(slot.fulfilment).slot?.label} ·{' '}
+                    {formatSlotTime(slot.startsAt)} – {formatSlotTime(slot.endsAt)}
+                  </span>
+                  <span className="text-amber-800">
+                    {slot.orders.length} {slot.orders.length === 1 ? 'order' : 'orders'}
+                  </span>
+                </div>
+
+                <ul className="divide-y divide-gray-100">
+                  {slot.orders.map((order) => (
+                    <li key={order.id} className="px-4 py-3 text-sm">
+                      <div className="flex flex-wrap justify-between gap-2 mb-1">
+                        <span className="font-medium text-gray-900">{order.name}</span>
+                        <span className="flex items-center gap-1 text-gray-500">
+                          <Phone size={14} />
+                          {order.phone}
+                        </span>
+                      </div>
+                      {slot.fulfilment === 'delivery' && (
+                        <p className="flex flex-wrap items-center gap-2 text-gray-600 mb-1">
+                          {formatAddress(order.address)}
+                          {order.address.location && (
+                            <a
+                              href={mapLink(order.address.location)}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="inline-flex items-center gap-1 text-amber-700 hover:text-amber-800"
+                            >
+                              <MapPin size={14} />
+                              Map pin
+                            </a>
+                          )}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500 mb-2">
+                        <span className="font-mono">{order.orderToken}</span> · {order.paymentMethod} ·{' '}
+                        {order.paymentStatus}
+                      </p>
+                      <ul className="space-y-1">
+                        {order.items.map((item, index) => (
+                          <li key={index}>
+                            <span className="text-gray-800">
+                              {item.quantity} × {item.productName}
+                              {item.variantLabel && (
+                                <span className="text-gray-500"> - {item.variantLabel}</span>
+                              )}
+                            </span>
+                            {item.note && (
+                              <p className="flex items-center gap-1 text-xs text-amber-800">
+                                <StickyNote size={14} />
+                                {item.note}
+                              </p>
+                            )}
+                            {item.customization && (
+                              <p className="flex items-start gap-1 text-xs text-gray-600">
+                                <Palette size={14} className="text-amber-600 flex-shrink-0" />
+                                {describeCustomization(item.customization).join(' · ')}
+                              </p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
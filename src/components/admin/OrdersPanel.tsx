@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { ExternalLink, MapPin, Palette, StickyNote } from 'lucide-react';
+import AdminMessage from './AdminMessage';
+import { fetchRecentOrders } from '../../services/adminOrderService';
+import { formatAddress, mapLink } from '../../lib/address';
+import { describeCustomization } from '../../lib/customCake';
+import { fulfilmentOption } from '../../lib/checkoutConfig';
+import { formatSlotWindow } from '../../lib/fulfilmentSlots';
+import { AdminOrder } from '../../types';
+
+export default function OrdersPanel() {
+  const [orders, setOrders] = useState<AdminOrder[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRecentOrders()
+      .then(setOrders)
+      .catch((err) => {
+        console.error('Error loading orders:', err);
+        setError('Failed to load orders. Please refresh the page.');
+      });
+  }, []);
+
+  if (error) {
+    return <AdminMessage message={{ type: 'error', text: error }} />;
+  }
+
+  if (!orders) {
+    return <div className="text-gray-600">Loading orders...</div>;
+  }
+
+  if (orders.length === 0) {
+    return <div className="text-gray-600">No orders yet.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {orders.map((order) => (
+        <div key={order.id} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+            <div>
+              <p className="font-semibold text-gray-900">{order.name}</p>
+              <p className="text-sm text-gray-500">
+                {order.phone} · {order.email}
+              </p>
+              <p className="text-sm text-gray-500">{formatAddress(order.address)}</p>
+              {order.address.location && (
+                <a
+                  href={mapLink(order.address.location)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1 text-sm text-amber-700 hover:text-amber-800"
+                >
+                  <MapPin size={14} />
+                  Map pin
+                </a>
+              )}
+            </div>
+            <div className="text-right text-sm">
+              <p className="font-mono text-xs text-gray-500">{order.orderToken}</p>
+              <p className="text-gray-600">{new Date(order.createdAt).toLocaleString()}</p>
+              <p className="text-gray-600">
+                {order.paymentMethod} · {order.paymentStatus}
+              </p>
+              {order.fulfilment && order.fulfilmentStartsAt && order.fulfilmentEndsAt && (
+                <p className="font-medium text-amber-800">
+                  {fulfilmentOption(order.fulfilment).slot?.label}{' '}
+                  {formatSlotWindow(order.fulfilmentStartsAt, order.fulfilmentEndsAt)}
+                </p>
+              )}
+              {order.paymentProofUrl && (
+                <a
+                  href={order.paymentProofUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-amber-600 hover:text-amber-700"
+                >
+                  Payment proof <ExternalLink size={14} />
+                </a>
+              )}
+            </div>
+          </div>
+
+          <ul className="divide-y divide-gray-100 text-sm">
+            {order.items.map((item, index) => (
+              <li key={index} className="py-2">
+                <div className="flex justify-between">
+                  <span className="text-gray-800">
+                    {item.productName}
+                    {item.variantLabel && <span className="text-gray-500"> - {item.variantLabel}</span>}
+                    <span className="text-gray-500"> x {item.quantity}</span>
+                  </span>
+                  <span className="font-medium text-gray-800">{item.price * item.quantity} PKR</span>
+                </div>
+                {item.note && (
+                  <p className="mt-1 flex items-center gap-1 text-xs text-amber-800">
+                    <StickyNote size={14} />
+                    {item.note}
+                  </p>
+                )}
+                {item.customization && (
+                  <div className="mt-2 flex gap-3 bg-amber-50 rounded-md p-3">
+                    <Palette size={16} className="text-amber-600 flex-shrink-0 mt-0.5" />
+                    <ul className="flex-1 text-xs text-gray-700 space-y-0.5">
+                      {describeCustomization(item.customization).map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                    {item.customization.referenceImageUrl && (
+                      <a href={item.customization.referenceImageUrl} target="_blank" rel="noopener noreferrer">
+                        <img
+                          src={item.customization.referenceImageUrl}
+                          alt="Reference"
+                          className="w-16 h-16 rounded object-cover"
+                        />
+                      </a>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {order.total !== null && (
+            <div className="border-t border-gray-200 pt-2 mt-1 text-sm space-y-0.5">
+              {order.discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Discount{order.promoCode && ` (${order.promoCode})`}</span>
+                  <span>-{order.discount} PKR</span>
+                </div>
+              )}
+              {order.deliveryFee > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>Delivery charge{order.deliveryZone && ` (${order.deliveryZone})`}</span>
+                  <span>{order.deliveryFee} PKR</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold text-gray-900">
+                <span>Total</span>
+                <span>{order.total} PKR</span>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,732 @@
+import { useRef, useState } from 'react';
+import { Archive, Loader, Plus, RotateCcw, Upload, X } from 'lucide-react';
+import AvailabilityFields from './AvailabilityFields';
+import { ALLERGEN_LABELS, ALLERGENS, DIETARY_LABELS, DIETARY_OPTIONS } from '../../lib/dietary';
+import { AdminCategory, AdminProduct, BundleItem, PriceTier, ProductDetails } from '../../types';
+import {
+  createImageSet,
+  parseTags,
+  ProductInput,
+  slugify,
+  uploadProductImage,
+  VariantInput,
+} from '../../services/adminCatalogService';
+
+interface ProductFormProps {
+  product: AdminProduct | null;
+  categories: AdminCategory[];
+  products: AdminProduct[];
+  existingIds: string[];
+  onSave: (input: ProductInput) => Promise<void>;
+  onClose: () => void;
+}
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none';
+
+export default function ProductForm({
+  product,
+  categories,
+  products,
+  existingIds,
+  onSave,
+  onClose,
+}: ProductFormProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const galleryInputRef = useRef<HTMLInputElement>(null);
+  const isNew = product === null;
+
+  const [form, setForm] = useState<ProductInput>({
+    id: product?.id ?? '',
+    categoryId: product?.categoryId ?? categories[0]?.id ?? '',
+    name: product?.name ?? '',
+    description: product?.description ?? '',
+    price: product?.price ?? 0,
+    image: product?.image ?? '',
+    isFeatured: product?.isFeatured ?? false,
+    dailyCapacity: product?.dailyCapacity ?? null,
+    leadTimeHours: product?.leadTimeHours ?? 0,
+    availability: product?.availability ?? {
+      hidden: false,
+      days: null,
+      from: null,
+      until: null,
+      hideWhenUnavailable: false,
+    },
+    tags: product?.tags ?? [],
+    details: product?.details ?? {
+      longDescription: '',
+      ingredients: '',
+      allergens: [],
+      dietary: [],
+      servingSize: '',
+      gallery: [],
+    },
+    imageSets: product?.imageSets ?? {},
+    variants: (product?.variants ?? []).map(({ id, label, price, archived }) => ({
+      id,
+      label,
+      price,
+      archived,
+    })),
+    priceTiers: product?.priceTiers ?? [],
+    bundleItems: product?.bundleItems ?? [],
+  });
+  const [tagsText, setTagsText] = useState((product?.tags ?? []).join(', '));
+  const [idTouched, setIdTouched] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof ProductInput>(key: K, value: ProductInput[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateDetails = (changes: Partial<ProductDetails>) => {
+    setForm((prev) => ({ ...prev, details: { ...prev.details, ...changes } }));
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantInput>) => {
+    setForm((prev) => ({
+      ...prev,
+      variants: prev.variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)),
+    }));
+  };
+
+  const addVariant = () => {
+    setForm((prev) => ({
+      ...prev,
+      variants: [...prev.variants, { id: null, label: '', price: prev.price, archived: false }],
+    }));
+  };
+
+  const removeVariant = (index: number) => {
+    setForm((prev) => ({ ...prev, variants: prev.variants.filter((_variant, i) => i !== index) }));
+  };
+
+  const updateTier = (index: number, changes: Partial<PriceTier>) => {
+    setForm((prev) => ({
+      ...prev,
+      priceTiers: prev.priceTiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)),
+    }));
+  };
+
+  const addTier = () => {
+    setForm((prev) => ({
+      ...prev,
+      priceTiers: [
+        ...prev.priceTiers,
+        { minQuantity: (prev.priceTiers[prev.priceTiers.length - 1]?.minQuantity ?? 1) + 1, percentOff: 10 },
+      ],
+    }));
+  };
+
+  const removeTier = (index: number) => {
+    setForm((prev) => ({ ...prev, priceTiers: prev.priceTiers.filter((_tier, i) => i !== index) }));
+  };
+
+  // Bundles are built from ordinary, unbundled products; archived ones stay listed while still inside.
+  const bundleChoices = products.filter(
+    (choice) =>
+      choice.id !== form.id &&
+      choice.bundleItems.length === 0 &&
+      (!choice.archived || form.bundleItems.some((item) => item.productId === choice.id))
+  );
+
+  const updateBundleItem = (index: number, changes: Partial<BundleItem>) => {
+    setForm((prev) => ({
+      ...prev,
+      bundleItems: prev.bundleItems.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    }));
+  };
+
+  const addBundleItem = () => {
+    setForm((prev) => ({
+      ...prev,
+      bundleItems: [...prev.bundleItems, { productId: bundleChoices[0]?.id ?? '', quantity: 1 }],
+    }));
+  };
+
+  const removeBundleItem = (index: number) => {
+    setForm((prev) => ({ ...prev, bundleItems: prev.bundleItems.filter((_item, i) => i !== index) }));
+  };
+
+  const handleNameChange = (name: string) => {
+    setForm((prev) => ({
+      ...prev,
+      name,
+      id: isNew && !idTouched ? slugify(name) : prev.id,
+    }));
+  };
+
+  const uploadImage = async (file: File | undefined, onUploaded: (url: string) => void) => {
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Please select an image file');
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      setError('File size must be less than 5MB');
+      return;
+    }
+
+    setError(null);
+    setUploading(true);
+
+    try {
+      const productId = form.id || slugify(form.name) || 'product';
+      const url = await uploadProductImage(productId, file);
+
+      // The original still works without variants, and "Optimise photos" can retry later.
+      try {
+        const imageSet = await createImageSet(productId, file);
+        setForm((prev) => ({ ...prev, imageSets: { ...prev.imageSets, [url]: imageSet } }));
+      } catch (err) {
+        console.error('Error creating image variants:', err);
+      }
+
+      onUploaded(url);
+    } catch (err) {
+      console.error('Error uploading image:', err);
+      setError('Failed to upload image. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) =>
+    uploadImage(e.target.files?.[0], (url) => update('image', url));
+
+  const handleGallerySelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    uploadImage(input.files?.[0], (url) =>
+      setForm((prev) => ({
+        ...prev,
+        details: { ...prev.details, gallery: [...prev.details.gallery, url] },
+      }))
+    ).finally(() => {
+      input.value = '';
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isNew && existingIds.includes(form.id)) {
+      setError(`A product with the ID "${form.id}" already exists.`);
+      return;
+    }
+    if (new Set(form.priceTiers.map((tier) => tier.minQuantity)).size < form.priceTiers.length) {
+      setError('Each quantity price needs a different minimum quantity.');
+      return;
+    }
+    if (new Set(form.bundleItems.map((item) => item.productId)).size < form.bundleItems.length) {
+      setError('Each product can only be listed once in a bundle. Raise its quantity instead.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        ...form,
+        name: form.name.trim(),
+        description: form.description.trim(),
+        tags: parseTags(tagsText),
+        details: {
+          ...form.details,
+          longDescription: form.details.longDescription.trim(),
+          ingredients: form.details.ingredients.trim(),
+          servingSize: form.details.servingSize.trim(),
+        },
+        variants: form.variants.map((variant) => ({ ...variant, label: variant.label.trim() })),
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error saving product:', err);
+      setError('Failed to save product. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 px-3">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {isNew ? 'Add Product' : `Edit ${product.name}`}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 p-3 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              value={form.name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Product ID</label>
+            <input
+              value={form.id}
+              onChange={(e) => {
+                setIdTouched(true);
+                update('id', slugify(e.target.value));
+              }}
+              disabled={!isNew}
+              required
+              className={`${inputClass} font-mono disabled:bg-gray-100 disabled:text-gray-500`}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Used in carts and orders. It cannot be changed after the product is created.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={form.categoryId}
+                onChange={(e) => update('categoryId', e.target.value)}
+                required
+                className={inputClass}
+              >
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                    {category.archived ? ' (archived)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Price (PKR)</label>
+              <input
+                type="number"
+                min={0}
+                value={form.price}
+                onChange={(e) => update('price', Number(e.target.value))}
+                required
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => update('description', e.target.value)}
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+            <input
+              value={tagsText}
+              onChange={(e) => setTagsText(e.target.value)}
+              placeholder="matcha, chocolate, eggless"
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Comma separated. Shown as menu filters.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Photo</label>
+            <div
+              onClick={() => !uploading && fileInputRef.current?.click()}
+              className="border-2 border-dashed border-amber-300 rounded-lg p-4 text-center cursor-pointer hover:bg-amber-50 transition-colors"
+            >
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              {uploading ? (
+                <Loader className="w-6 h-6 animate-spin text-amber-600 mx-auto" />
+              ) : form.image ? (
+                <div>
+                  <img src={form.image} alt={form.name} className="max-h-32 mx-auto mb-2 rounded-lg" />
+                  <p className="text-xs text-gray-500">Click to replace</p>
+                </div>
+              ) : (
+                <div>
+                  <Upload className="w-6 h-6 text-amber-600 mx-auto mb-1" />
+                  <p className="text-sm text-gray-700">Click to upload</p>
+                  <p className="text-xs text-gray-500">PNG, JPG up to 5MB</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">More photos</label>
+            <div className="flex flex-wrap gap-2">
+              {form.details.gallery.map((url) => (
+                <div key={url} className="relative">
+                  <img src={url} alt="" className="w-16 h-16 rounded object-cover bg-amber-50" />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateDetails({ gallery: form.details.gallery.filter((item) => item !== url) })
+                    }
+                    className="absolute -top-2 -right-2 bg-white border rounded-full p-0.5 text-gray-600 hover:bg-gray-100"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => !uploading && galleryInputRef.current?.click()}
+                className="w-16 h-16 rounded border-2 border-dashed border-amber-300 flex items-center justify-center text-amber-600 hover:bg-amber-50"
+              >
+                {uploading ? <Loader size={18} className="animate-spin" /> : <Plus size={18} />}
+              </button>
+              <input
+                ref={galleryInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleGallerySelect}
+                className="hidden"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Shown after the main photo on the product page.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Full description</label>
+            <textarea
+              value={form.details.longDescription}
+              onChange={(e) => updateDetails({ longDescription: e.target.value })}
+              rows={4}
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Ingredients</label>
+            <textarea
+              value={form.details.ingredients}
+              onChange={(e) => updateDetails({ ingredients: e.target.value })}
+              rows={2}
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Serving size</label>
+            <input
+              value={form.details.servingSize}
+              onChange={(e) => updateDetails({ servingSize: e.target.value })}
+              placeholder="Serves 6-8"
+              className={inputClass}
+            />
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">Contains</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {ALLERGENS.map((allergen) => (
+                <label key={allergen} className="flex items-center gap-1.5 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.details.allergens.includes(allergen)}
+                    onChange={() =>
+                      updateDetails({ allergens: toggle(form.details.allergens, allergen) })
+                    }
+                  />
+                  {ALLERGEN_LABELS[allergen]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">Dietary</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {DIETARY_OPTIONS.map((label) => (
+                <label key={label} className="flex items-center gap-1.5 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.details.dietary.includes(label)}
+                    onChange={() => updateDetails({ dietary: toggle(form.details.dietary, label) })}
+                  />
+                  {DIETARY_LABELS[label]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Shown as badges on the menu, at checkout and in the confirmation email.
+            </p>
+          </fieldset>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Variants</label>
+              <button
+                type="button"
+                onClick={addVariant}
+                className="flex items-center gap-1 text-sm text-amber-700 hover:text-amber-800"
+              >
+                <Plus size={16} />
+                Add variant
+              </button>
+            </div>
+            {form.variants.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                No variants. Add sizes or piece counts that are priced separately.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {form.variants.map((variant, index) => (
+                  <div key={variant.id ?? `new-${index}`} className="flex items-center gap-2">
+                    <input
+                      value={variant.label}
+                      onChange={(e) => updateVariant(index, { label: e.target.value })}
+                      placeholder="e.g. 8 inch"
+                      required
+                      disabled={variant.archived}
+                      className={`${inputClass} flex-1 disabled:bg-gray-100 disabled:text-gray-400`}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={variant.price}
+                      onChange={(e) => updateVariant(index, { price: Number(e.target.value) })}
+                      required
+                      disabled={variant.archived}
+                      className={`${inputClass} w-28 disabled:bg-gray-100 disabled:text-gray-400`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        variant.id === null
+                          ? removeVariant(index)
+                          : updateVariant(index, { archived: !variant.archived })
+                      }
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                      title={variant.id === null ? 'Remove' : variant.archived ? 'Restore' : 'Archive'}
+                    >
+                      {variant.id === null ? (
+                        <X size={16} />
+                      ) : variant.archived ? (
+                        <RotateCcw size={16} />
+                      ) : (
+                        <Archive size={16} />
+                      )}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Quantity pricing</label>
+              <button
+                type="button"
+                onClick={addTier}
+                className="flex items-center gap-1 text-sm text-amber-700 hover:text-amber-800"
+              >
+                <Plus size={16} />
+                Add tier
+              </button>
+            </div>
+            {form.priceTiers.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                No quantity pricing. Add a tier to discount every unit once a customer buys enough.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {form.priceTiers.map((tier, index) => (
+                  <div key={index} className="flex items-center gap-2 text-sm text-gray-700">
+                    <span>Buy</span>
+                    <input
+                      type="number"
+                      min={2}
+                      value={tier.minQuantity}
+                      onChange={(e) => updateTier(index, { minQuantity: Number(e.target.value) })}
+                      required
+                      className={`${inputClass} w-20`}
+                    />
+                    <span>or more, save</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={tier.percentOff}
+                      onChange={(e) => updateTier(index, { percentOff: Number(e.target.value) })}
+                      required
+                      className={`${inputClass} w-20`}
+                    />
+                    <span className="flex-1">%</span>
+                    <button
+                      type="button"
+                      onClick={() => removeTier(index)}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                      title="Remove"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Bundle contents</label>
+              <button
+                type="button"
+                onClick={addBundleItem}
+                disabled={bundleChoices.length === 0}
+                className="flex items-center gap-1 text-sm text-amber-700 hover:text-amber-800 disabled:opacity-50"
+              >
+                <Plus size={16} />
+                Add product
+              </button>
+            </div>
+            {form.bundleItems.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Not a bundle. Add products to sell this as a box or combo at its own price.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  {form.bundleItems.map((item, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <select
+                        value={item.productId}
+                        onChange={(e) => updateBundleItem(index, { productId: e.target.value })}
+                        required
+                        className={`${inputClass} flex-1`}
+                      >
+                        {bundleChoices.map((choice) => (
+                          <option key={choice.id} value={choice.id}>
+                            {choice.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={1}
+                        value={item.quantity}
+                        onChange={(e) => updateBundleItem(index, { quantity: Number(e.target.value) })}
+                        required
+                        className={`${inputClass} w-20`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeBundleItem(index)}
+                        className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                        title="Remove"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Each bundle sold also uses up the daily capacity of the products inside it.
+                </p>
+              </>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Daily capacity
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={form.dailyCapacity ?? ''}
+              onChange={(e) =>
+                update('dailyCapacity', e.target.value === '' ? null : Number(e.target.value))
+              }
+              placeholder="Unlimited"
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Maximum units per day across all variants, counted against pending and confirmed
+              orders. Leave empty for no limit.
+              {product?.remainingToday != null && ` ${product.remainingToday} left today.`}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Lead time (hours)
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={form.leadTimeHours}
+              onChange={(e) => update('leadTimeHours', Number(e.target.value))}
+              required
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Notice the kitchen needs before this product can be picked up or delivered. Checkout
+              only offers times at least this far ahead. Use 0 for items that are always ready.
+            </p>
+          </div>
+
+          <AvailabilityFields
+            value={form.availability}
+            onChange={(availability) => update('availability', availability)}
+            inputClass={inputClass}
+          />
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.isFeatured}
+              onChange={(e) => update('isFeatured', e.target.checked)}
+            />
+            Pin to Featured Products
+          </label>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="flex-1 border py-2 rounded-lg text-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || uploading || !form.id || !form.categoryId}
+              className="flex-1 bg-amber-600 text-white py-2 rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : 'Save Product'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
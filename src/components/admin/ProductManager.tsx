@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { Archive, ArrowDown, ArrowUp, ImageDown, Pencil, Plus, RotateCcw, Star } from 'lucide-react';
+import AdminMessage, { AdminMessageState } from './AdminMessage';
+import ProductForm from './ProductForm';
+import FeaturedWindowSetting from './FeaturedWindowSetting';
+import { useAdminCatalog } from '../../hooks/useAdminCatalog';
+import {
+  createProduct,
+  fetchFavouriteCounts,
+  optimiseProductImages,
+  ProductInput,
+  reorderRows,
+  setProductArchived,
+  setProductPinned,
+  updateProduct,
+} from '../../services/adminCatalogService';
+import { AdminProduct } from '../../types';
+
+export default function ProductManager() {
+  const { catalog, loading, error, reload } = useAdminCatalog();
+  const [editing, setEditing] = useState<AdminProduct | 'new' | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<AdminMessageState | null>(null);
+  const [favouriteCounts, setFavouriteCounts] = useState<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    fetchFavouriteCounts()
+      .then(setFavouriteCounts)
+      .catch((err) => console.error('Error loading favourite counts:', err));
+  }, []);
+
+  const runAction = async (action: () => Promise<void>, successText: string) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      await action();
+      await reload();
+      setMessage({ type: 'success', text: successText });
+    } catch (err) {
+      console.error('Error:', err);
+      setMessage({ type: 'error', text: 'Failed to save changes. Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600">Loading products...</div>;
+  }
+
+  if (error || !catalog) {
+    return <AdminMessage message={{ type: 'error', text: error ?? 'Catalog unavailable' }} />;
+  }
+
+  const productsIn = (categoryId: string) =>
+    catalog.products.filter((product) => product.categoryId === categoryId);
+
+  const handleSave = async (input: ProductInput) => {
+    if (editing === 'new') {
+      await createProduct(input, productsIn(input.categoryId).length + 1);
+    } else {
+      await updateProduct(input);
+    }
+    await reload();
+    setMessage({ type: 'success', text: `${input.name} saved.` });
+  };
+
+  const unoptimised = catalog.products.filter(
+    (product) =>
+      !product.archived &&
+      [product.image, ...product.details.gallery].some((url) => url && !product.imageSets[url])
+  );
+
+  const handleOptimise = () =>
+    runAction(async () => {
+      for (const product of unoptimised) {
+        await optimiseProductImages(product);
+      }
+    }, 'Photos optimised.');
+
+  const handleMove = (categoryId: string, index: number, direction: -1 | 1) => {
+    const ids = productsIn(categoryId).map((product) => product.id);
+    const target = index + direction;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    runAction(() => reorderRows('products', ids), 'Product order saved.');
+  };
+
+  return (
+    <div className="space-y-6">
+      {message && <AdminMessage message={message} />}
+
+      <FeaturedWindowSetting />
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Show archived products
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {unoptimised.length > 0 && (
+            <button
+              onClick={handleOptimise}
+              disabled={saving}
+              className="flex items-center gap-2 border border-amber-300 text-amber-800 px-4 py-2 rounded-lg hover:bg-amber-50 transition-colors disabled:opacity-50"
+              title="Generate resized WebP/AVIF versions and blur placeholders"
+            >
+              <ImageDown size={18} />
+              {saving ? 'Working…' : `Optimise photos (${unoptimised.length})`}
+            </button>
+          )}
+          <button
+            onClick={() => setEditing('new')}
+            disabled={catalog.categories.length === 0}
+            className="flex items-center gap-2 bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+          >
+            <Plus size={18} />
+            Add Product
+          </button>
+        </div>
+      </div>
+
+      {catalog.categories.map((category) => {
+        const products = productsIn(category.id);
+        const visible = products.filter((product) => showArchived || !product.archived);
+        if (visible.length === 0) return null;
+
+        return (
+          <div key={category.id}>
+            <h3 className="font-semibold text-amber-900 mb-2">
+              {category.name}
+              {category.archived && <span className="ml-2 text-xs uppercase text-gray-400">Archived</span>}
+            </h3>
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {visible.map((product) => {
+                const index = products.indexOf(product);
+
+                return (
+                  <li
+                    key={product.id}
+                    className={`flex items-center gap-3 px-4 py-3 ${product.archived ? 'bg-gray-50' : ''}`}
+                  >
+                    <img
+                      src={product.image}
+                      alt={product.name}
+                      className={`w-12 h-12 rounded object-cover bg-amber-50 ${product.archived ? 'opacity-40' : ''}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className={`font-medium truncate ${product.archived ? 'text-gray-400' : 'text-gray-900'}`}>
+                        {product.name}
+                        {product.archived && <span className="ml-2 text-xs uppercase">Archived</span>}
+                        {!product.archived && product.availability.hidden && (
+                          <span className="ml-2 text-xs uppercase text-gray-400">Hidden</span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        <span className="font-mono text-xs">{product.id}</span> · {product.price} PKR
+                        {product.dailyCapacity !== null &&
+                          ` · ${product.remainingToday ?? product.dailyCapacity}/${product.dailyCapacity} left today`}
+                        {` · ${favouriteCounts.get(product.id) ?? 0} favourited`}
+                      </p>
+                    </div>
+
+                    <button
+                      onClick={() =>
+                        runAction(
+                          () => setProductPinned(product.id, !product.isFeatured),
+                          product.isFeatured
+                            ? `${product.name} unpinned from Featured Products.`
+                            : `${product.name} pinned to Featured Products.`
+                        )
+                      }
+                      disabled={saving || product.archived}
+                      className="p-2 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title={product.isFeatured ? 'Unpin from Featured' : 'Pin to Featured'}
+                    >
+                      <Star
+                        size={18}
+                        className={product.isFeatured ? 'text-amber-500 fill-amber-500' : 'text-gray-400'}
+                      />
+                    </button>
+                    <button
+                      onClick={() => handleMove(category.id, index, -1)}
+                      disabled={saving || index === 0}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                    >
+                      <ArrowUp size={18} />
+                    </button>
+                    <button
+                      onClick={() => handleMove(category.id, index, 1)}
+                      disabled={saving || index === products.length - 1}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                    >
+                      <ArrowDown size={18} />
+                    </button>
+                    <button
+                      onClick={() => setEditing(product)}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                    >
+                      <Pencil size={18} />
+                    </button>
+                    <button
+                      onClick={() =>
+                        runAction(
+                          () => setProductArchived(product.id, !product.archived),
+                          product.archived ? `${product.name} restored.` : `${product.name} archived.`
+                        )
+                      }
+                      disabled={saving}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                      title={product.archived ? 'Restore' : 'Archive'}
+                    >
+                      {product.archived ? <RotateCcw size={18} /> : <Archive size={18} />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+
+      {editing && (
+        <ProductForm
+          product={editing === 'new' ? null : editing}
+          categories={catalog.categories}
+          products={catalog.products}
+          existingIds={catalog.products.map((product) => product.id)}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
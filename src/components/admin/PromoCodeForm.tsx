@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { toDateKey } from '../../lib/availability';
+import { normaliseCode, PromoCodeInput } from '../../services/adminPromoService';
+import { AdminCategory, AdminProduct, DiscountType, PromoCode } from '../../types';
+
+interface PromoCodeFormProps {
+  promo: PromoCode | null;
+  categories: AdminCategory[];
+  products: AdminProduct[];
+  existingCodes: string[];
+  onSave: (input: PromoCodeInput) => Promise<void>;
+  onClose: () => void;
+}
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+// Codes start at the beginning of their first day and run to the end of their last day.
+const toDateInput = (value: string | null) => (value ? toDateKey(new Date(value)) : '');
+const startOfDay = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : null);
+const endOfDay = (date: string) => (date ? new Date(`${date}T23:59:59`).toISOString() : null);
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none';
+
+export default function PromoCodeForm({
+  promo,
+  categories,
+  products,
+  existingCodes,
+  onSave,
+  onClose,
+}: PromoCodeFormProps) {
+  const isNew = promo === null;
+
+  const [code, setCode] = useState(promo?.code ?? '');
+  const [description, setDescription] = useState(promo?.description ?? '');
+  const [discountType, setDiscountType] = useState<DiscountType>(promo?.discountType ?? 'percent');
+  const [discountValue, setDiscountValue] = useState(promo?.discountValue ?? 10);
+  const [minOrderTotal, setMinOrderTotal] = useState(promo?.minOrderTotal ?? 0);
+  const [scoped, setScoped] = useState(promo !== null && (promo.productIds ?? promo.categoryIds) !== null);
+  const [productIds, setProductIds] = useState<string[]>(promo?.productIds ?? []);
+  const [categoryIds, setCategoryIds] = useState<string[]>(promo?.categoryIds ?? []);
+  const [startsOn, setStartsOn] = useState(toDateInput(promo?.startsAt ?? null));
+  const [endsOn, setEndsOn] = useState(toDateInput(promo?.expiresAt ?? null));
+  const [usageLimit, setUsageLimit] = useState<number | null>(promo?.usageLimit ?? null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const normalised = normaliseCode(code);
+    if (existingCodes.includes(normalised) && normalised !== promo?.code) {
+      setError(`A promo code "${normalised}" already exists.`);
+      return;
+    }
+    if (scoped && productIds.length + categoryIds.length === 0) {
+      setError('Choose at least one product or category, or apply the code to the whole cart.');
+      return;
+    }
+    if (startsOn && endsOn && endsOn < startsOn) {
+      setError('The last day cannot be before the first day.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        id: promo?.id ?? null,
+        code: normalised,
+        description: description.trim(),
+        discountType,
+        discountValue,
+        minOrderTotal,
+        productIds: scoped && productIds.length > 0 ? productIds : null,
+        categoryIds: scoped && categoryIds.length > 0 ? categoryIds : null,
+        startsAt: startOfDay(startsOn),
+        expiresAt: endOfDay(endsOn),
+        usageLimit,
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error saving promo code:', err);
+      setError('Failed to save promo code. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 px-3">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {isNew ? 'Add Promo Code' : `Edit ${promo.code}`}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 p-3 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+              <input
+                value={code}
+                onChange={(e) => setCode(normaliseCode(e.target.value))}
+                placeholder="EID2026"
+                required
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Eid promotion"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Discount</label>
+              <select
+                value={discountType}
+                onChange={(e) => setDiscountType(e.target.value as DiscountType)}
+                className={inputClass}
+              >
+                <option value="percent">Percentage off</option>
+                <option value="fixed">Fixed amount off</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {discountType === 'percent' ? 'Percent' : 'Amount (PKR)'}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={discountType === 'percent' ? 100 : undefined}
+                value={discountValue}
+                onChange={(e) => setDiscountValue(Number(e.target.value))}
+                required
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Minimum order (PKR)</label>
+            <input
+              type="number"
+              min={0}
+              value={minOrderTotal}
+              onChange={(e) => setMinOrderTotal(Number(e.target.value))}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Cart subtotal before the discount and delivery.</p>
+          </div>
+
+          <fieldset className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <legend className="text-sm font-medium text-gray-700 px-1">Applies to</legend>
+
+            <div className="flex gap-4 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={!scoped} onChange={() => setScoped(false)} />
+                Whole cart
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={scoped} onChange={() => setScoped(true)} />
+                Selected categories and products
+              </label>
+            </div>
+
+            {scoped && (
+              <>
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Categories</p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {categories.map((category) => (
+                      <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={categoryIds.includes(category.id)}
+                          onChange={() => setCategoryIds((prev) => toggle(prev, category.id))}
+                        />
+                        {category.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Products</p>
+                  <div className="max-h-40 overflow-y-auto border border-gray-100 rounded p-2 space-y-1">
+                    {products.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={productIds.includes(product.id)}
+                          onChange={() => setProductIds((prev) => toggle(prev, product.id))}
+                        />
+                        {product.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </fieldset>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">First day</label>
+              <input
+                type="date"
+                value={startsOn}
+                onChange={(e) => setStartsOn(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Last day</label>
+              <input
+                type="date"
+                value={endsOn}
+                onChange={(e) => setEndsOn(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Usage limit</label>
+            <input
+              type="number"
+              min={1}
+              value={usageLimit ?? ''}
+              onChange={(e) => setUsageLimit(e.target.value === '' ? null : Number(e.target.value))}
+              placeholder="Unlimited"
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Total number of orders that can use this code. Cancelled and expired orders do not count.
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="flex-1 border py-2 rounded-lg text-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !normaliseCode(code)}
+              className="flex-1 bg-amber-600 text-white py-2 rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : 'Save Promo Code'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Archive, Pencil, Plus, RotateCcw } from 'lucide-react';
+import AdminMessage, { AdminMessageState } from './AdminMessage';
+import PromoCodeForm from './PromoCodeForm';
+import { useAdminCatalog } from '../../hooks/useAdminCatalog';
+import {
+  fetchPromoCodes,
+  PromoCodeInput,
+  savePromoCode,
+  setPromoCodeArchived,
+} from '../../services/adminPromoService';
+import { AdminCatalog, PromoCode } from '../../types';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-PK', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const describeDiscount = (promo: PromoCode) =>
+  promo.discountType === 'percent' ? `${promo.discountValue}% off` : `${promo.discountValue} PKR off`;
+
+function describeScope(promo: PromoCode, catalog: AdminCatalog) {
+  const names = [
+    ...(promo.categoryIds ?? []).map(
+      (id) => catalog.categories.find((category) => category.id === id)?.name ?? id
+    ),
+    ...(promo.productIds ?? []).map(
+      (id) => catalog.products.find((product) => product.id === id)?.name ?? id
+    ),
+  ];
+  return names.length > 0 ? names.join(', ') : 'Whole cart';
+}
+
+function describeWindow(promo: PromoCode) {
+  if (promo.startsAt && promo.expiresAt) {
+    return `${formatDate(promo.startsAt)} – ${formatDate(promo.expiresAt)}`;
+  }
+  if (promo.startsAt) return `From ${formatDate(promo.startsAt)}`;
+  if (promo.expiresAt) return `Until ${formatDate(promo.expiresAt)}`;
+  return 'No end date';
+}
+
+export default function PromoCodeManager() {
+  const { catalog, error: catalogError } = useAdminCatalog();
+  const [promoCodes, setPromoCodes] = useState<PromoCode[] | null>(null);
+  const [editing, setEditing] = useState<PromoCode | 'new' | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<AdminMessageState | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setPromoCodes(await fetchPromoCodes());
+    } catch (err) {
+      console.error('Error loading promo codes:', err);
+      setMessage({ type: 'error', text: 'Failed to load promo codes. Please refresh the page.' });
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSave = async (input: PromoCodeInput) => {
+    await savePromoCode(input);
+    await load();
+    setMessage({ type: 'success', text: `${input.code} saved.` });
+  };
+
+  const toggleArchived = async (promo: PromoCode) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      await setPromoCodeArchived(promo.id, !promo.archived);
+      await load();
+      setMessage({
+        type: 'success',
+        text: promo.archived ? `${promo.code} switched back on.` : `${promo.code} switched off.`,
+      });
+    } catch (err) {
+      console.error('Error:', err);
+      setMessage({ type: 'error', text: 'Failed to save changes. Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (catalogError) {
+    return <AdminMessage message={{ type: 'error', text: catalogError }} />;
+  }
+
+  if (!promoCodes || !catalog) {
+    return <div className="text-gray-600">Loading promo codes...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && <AdminMessage message={message} />}
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-2 bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors"
+        >
+          <Plus size={18} />
+          Add Promo Code
+        </button>
+      </div>
+
+      {promoCodes.length === 0 ? (
+        <p className="text-gray-600">No promo codes yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {promoCodes.map((promo) => (
+            <li
+              key={promo.id}
+              className={`flex items-start gap-3 px-4 py-3 ${promo.archived ? 'bg-gray-50' : ''}`}
+            >
+              <div className="flex-1 text-sm">
+                <p className={`font-mono font-semibold ${promo.archived ? 'text-gray-400' : 'text-gray-900'}`}>
+                  {promo.code}
+                  {promo.archived && <span className="ml-2 font-sans text-xs uppercase">Off</span>}
+                </p>
+                {promo.description && <p className="text-gray-600">{promo.description}</p>}
+                <p className="text-gray-500">
+                  {describeDiscount(promo)}
+                  {promo.minOrderTotal > 0 && ` · min ${promo.minOrderTotal} PKR`} ·{' '}
+                  {describeScope(promo, catalog)}
+                </p>
+                <p className="text-gray-500">
+                  {describeWindow(promo)} · used {promo.uses}
+                  {promo.usageLimit !== null && ` of ${promo.usageLimit}`}
+                </p>
+              </div>
+
+              <button onClick={() => setEditing(promo)} className="p-2 text-gray-500 hover:bg-gray-100 rounded">
+                <Pencil size={18} />
+              </button>
+              <button
+                onClick={() => toggleArchived(promo)}
+                disabled={saving}
+                className="p-2 text-gray-500 hover:bg-gray-100 rounded"
+                title={promo.archived ? 'Switch on' : 'Switch off'}
+              >
+                {promo.archived ? <RotateCcw size={18} /> : <Archive size={18} />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <PromoCodeForm
+          promo={editing === 'new' ? null : editing}
+          categories={catalog.categories}
+          products={catalog.products}
+          existingCodes={promoCodes.map((promo) => promo.code)}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, RotateCcw, X } from 'lucide-react';
+import AdminMessage, { AdminMessageState } from './AdminMessage';
+import StarRating from '../StarRating';
+import { fetchReviews, setReviewStatus } from '../../services/adminReviewService';
+import { AdminReview, ReviewStatus } from '../../types';
+
+const STATUS_FILTERS: { id: ReviewStatus; label: string }[] = [
+  { id: 'pending', label: 'Awaiting review' },
+  { id: 'published', label: 'Published' },
+  { id: 'rejected', label: 'Rejected' },
+];
+
+const STATUS_MESSAGES: Record<ReviewStatus, string> = {
+  pending: 'Review moved back to pending.',
+  published: 'Review published.',
+  rejected: 'Review rejected.',
+};
+
+export default function ReviewModeration() {
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [reviews, setReviews] = useState<AdminReview[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<AdminMessageState | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setReviews(await fetchReviews(status));
+    } catch (err) {
+      console.error('Error loading reviews:', err);
+      setMessage({ type: 'error', text: 'Failed to load reviews. Please refresh the page.' });
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setReviews(null);
+    load();
+  }, [load]);
+
+  const moderate = async (review: AdminReview, next: ReviewStatus) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      await setReviewStatus(review.id, next);
+      await load();
+      setMessage({ type: 'success', text: STATUS_MESSAGES[next] });
+    } catch (err) {
+      console.error('Error:', err);
+      setMessage({ type: 'error', text: 'Failed to save changes. Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {message && <AdminMessage message={message} />}
+
+      <div className="flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter.id}
+            onClick={() => setStatus(filter.id)}
+            className={`px-3 py-1 rounded-full text-sm ${
+              status === filter.id
+                ? 'bg-amber-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {!reviews && <div className="text-gray-600">Loading reviews...</div>}
+      {reviews?.length === 0 && <div className="text-gray-600">No reviews here.</div>}
+
+      {reviews?.map((review) => (
+        <div key={review.id} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+            <div>
+              <p className="font-semibold text-gray-900">{review.productName}</p>
+              <p className="text-sm text-gray-500">
+                {review.authorName} · order <span className="font-mono">{review.orderToken}</span> ·{' '}
+                {new Date(review.createdAt).toLocaleString()}
+              </p>
+            </div>
+            <StarRating rating={review.rating} />
+          </div>
+          {review.body && <p className="text-gray-700 text-sm whitespace-pre-line mb-3">{review.body}</p>}
+
+          <div className="flex gap-2">
+            {review.status !== 'published' && (
+              <button
+                onClick={() => moderate(review, 'published')}
+                disabled={saving}
+                className="flex items-center gap-1 bg-green-600 text-white px-3 py-1.5 rounded text-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                <Check size={16} />
+                Publish
+              </button>
+            )}
+            {review.status !== 'rejected' && (
+              <button
+                onClick={() => moderate(review, 'rejected')}
+                disabled={saving}
+                className="flex items-center gap-1 border border-gray-300 text-gray-700 px-3 py-1.5 rounded text-sm hover:bg-gray-100 disabled:opacity-50"
+              >
+                <X size={16} />
+                Reject
+              </button>
+            )}
+            {review.status !== 'pending' && (
+              <button
+                onClick={() => moderate(review, 'pending')}
+                disabled={saving}
+                className="flex items-center gap-1 text-gray-500 px-3 py-1.5 rounded text-sm hover:bg-gray-100 disabled:opacity-50"
+              >
+                <RotateCcw size={16} />
+                Back to pending
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Loader, MapPin, X } from 'lucide-react';
+import { ADDRESS_FIELD_MAX_LENGTH, formatAddress, isSameAddress, mapLink } from '../../lib/address';
+import { forgetAddress, readSavedAddresses } from '../../lib/savedAddresses';
+import { Address } from '../../types';
+
+interface AddressFieldsProps {
+  address: Address;
+  onChange: (address: Address) => void;
+  inputClass: string;
+}
+
+const FIELDS: { name: keyof Omit<Address, 'location'>; placeholder: string; required: boolean }[] = [
+  { name: 'house', placeholder: 'House / Flat No.', required: true },
+  { name: 'street', placeholder: 'Street', required: true },
+  { name: 'area', placeholder: 'Area / Sector, e.g. F-7/4', required: true },
+  { name: 'city', placeholder: 'City', required: true },
+  { name: 'landmark', placeholder: 'Nearby landmark (optional)', required: false },
+];
+
+// Six decimal places is about 10 cm, far finer than a phone's fix.
+const roundCoordinate = (value: number) => Math.round(value * 1e6) / 1e6;
+
+export default function AddressFields({ address, onChange, inputClass }: AddressFieldsProps) {
+  const [saved, setSaved] = useState(readSavedAddresses);
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  const pinLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError("Your browser can't share its location.");
+      return;
+    }
+
+    setLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        onChange({
+          ...address,
+          location: {
+            lat: roundCoordinate(position.coords.latitude),
+            lng: roundCoordinate(position.coords.longitude),
+          },
+        });
+      },
+      (err) => {
+        console.error('Error getting location:', err);
+        setLocating(false);
+        setLocationError("We couldn't get your location. The pin is optional.");
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="text-sm font-medium text-gray-700 mb-2">Address</legend>
+
+      {saved.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">Saved on this device</p>
+          {saved.map((item) => (
+            <div
+              key={formatAddress(item)}
+              className={`flex items-start gap-2 border rounded-md px-3 py-2 text-sm ${
+                isSameAddress(item, address) ? 'border-amber-600 bg-amber-50' : 'border-gray-200'
+              }`}
+            >
+              <button type="button" onClick={() => onChange(item)} className="flex-1 text-left text-gray-700">
+                {formatAddress(item)}
+              </button>
+              <button
+                type="button"
+                onClick={() => setSaved(forgetAddress(item))}
+                className="text-gray-400 hover:text-gray-600"
+                title="Forget this address"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map((field) => (
+          <input
+            key={field.name}
+            name={field.name}
+            placeholder={field.placeholder}
+            value={address[field.name]}
+            onChange={(e) => onChange({ ...address, [field.name]: e.target.value })}
+            maxLength={ADDRESS_FIELD_MAX_LENGTH}
+            required={field.required}
+            className={`${inputClass} ${field.name === 'landmark' ? 'col-span-2' : ''}`}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {address.location ? (
+          <>
+            <a
+              href={mapLink(address.location)}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1 text-amber-700 hover:text-amber-800"
+            >
+              <MapPin size={16} />
+              Location pinned
+            </a>
+            <button
+              type="button"
+              onClick={() => onChange({ ...address, location: null })}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              Remove pin
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={pinLocation}
+            disabled={locating}
+            className="flex items-center gap-1 text-amber-700 hover:text-amber-800 disabled:opacity-50"
+          >
+            {locating ? <Loader size={16} className="animate-spin" /> : <MapPin size={16} />}
+            Pin my current location (optional)
+          </button>
+        )}
+        {locationError && <span className="text-red-700">{locationError}</span>}
+      </div>
+    </fieldset>
+  );
+}
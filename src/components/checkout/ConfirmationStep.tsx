@@ -0,0 +1,60 @@
+import { CheckCircle } from 'lucide-react';
+import {
+  fulfilmentOption,
+  paymentMethodOption,
+  PICKUP_DETAILS,
+} from '../../lib/checkoutConfig';
+import { formatSlotWindow } from '../../lib/fulfilmentSlots';
+import { Fulfilment, FulfilmentSlot, PaymentMethod, PlacedOrder } from '../../types';
+
+interface ConfirmationStepProps {
+  order: PlacedOrder;
+  fulfilment: Fulfilment;
+  slot: FulfilmentSlot | null;
+  paymentMethod: PaymentMethod;
+  onDone: () => void;
+}
+
+export default function ConfirmationStep({
+  order,
+  fulfilment,
+  slot,
+  paymentMethod,
+  onDone,
+}: ConfirmationStepProps) {
+  const method = paymentMethodOption(paymentMethod);
+  const option = fulfilmentOption(fulfilment);
+
+  return (
+    <div className="text-center">
+      <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+      <h2 className="text-2xl font-semibold mb-2">{method.confirmationTitle}</h2>
+      <p className="text-gray-600 mb-4">{method.confirmationMessage}</p>
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-4">
+        <p className="text-sm text-gray-600 mb-1">Order Token:</p>
+        <p className="font-mono font-bold text-amber-900 text-lg">{order.orderToken}</p>
+      </div>
+      {(option.showsPickupDetails || (option.slot && slot)) && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4 text-left space-y-2">
+          {option.slot && slot && (
+            <p className="text-sm text-gray-700">
+              <span className="font-medium">{option.slot.label}:</span>{' '}
+              {formatSlotWindow(slot.startsAt, slot.endsAt)}
+            </p>
+          )}
+          {option.showsPickupDetails && (
+            <p className="text-sm text-gray-700">
+              <span className="font-medium">Pickup address:</span> {PICKUP_DETAILS.address}
+            </p>
+          )}
+        </div>
+      )}
+      <button
+        onClick={onDone}
+        className="w-full bg-amber-600 text-white py-3 rounded-lg font-semibold hover:bg-amber-700 transition-colors mt-2"
+      >
+        Back to Home
+      </button>
+    </div>
+  );
+}
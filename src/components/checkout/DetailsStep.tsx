@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import AddressFields from './AddressFields';
+import DietaryBadges from '../DietaryBadges';
+import { trimAddress, validateAddress } from '../../lib/address';
+import { cartItemName } from '../../lib/cart';
+import { ALLERGEN_LABELS, cartAllergens } from '../../lib/dietary';
+import { priceCart } from '../../lib/pricing';
+import { CartItem, CustomerDetails } from '../../types';
+
+interface DetailsStepProps {
+  cartItems: CartItem[];
+  customer: CustomerDetails;
+  onCancel: () => void;
+  onSubmit: (customer: CustomerDetails) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none';
+
+export default function DetailsStep({ cartItems, customer, onCancel, onSubmit }: DetailsStepProps) {
+  const [formData, setFormData] = useState(customer);
+  const [error, setError] = useState<string | null>(null);
+  const { lines, subtotal } = priceCart(cartItems);
+  const allergens = cartAllergens(cartItems);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        const addressError = validateAddress(formData.address);
+        if (addressError) {
+          setError(addressError);
+          return;
+        }
+        onSubmit({
+          name: formData.name.trim(),
+          email: formData.email.trim(),
+          phone: formData.phone.trim(),
+          address: trimAddress(formData.address),
+        });
+      }}
+      className="space-y-4"
+    >
+      <input name="name" placeholder="Full Name" value={formData.name} onChange={handleInputChange} required className={inputClass} />
+      <input name="email" type="email" placeholder="Email Address" value={formData.email} onChange={handleInputChange} required className={inputClass} />
+      <input name="phone" placeholder="Phone Number" value={formData.phone} onChange={handleInputChange} required className={inputClass} />
+      <AddressFields
+        address={formData.address}
+        onChange={(address) => {
+          setError(null);
+          setFormData((prev) => ({ ...prev, address }));
+        }}
+        inputClass={inputClass}
+      />
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <ul className="border rounded-md divide-y max-h-48 overflow-y-auto text-sm">
+        {lines.map(({ item, percentOff, total }) => (
+          <li key={item.lineId} className="px-3 py-2">
+            <div className="flex justify-between gap-3">
+              <span>
+                {cartItemName(item)} × {item.quantity}
+                {percentOff > 0 && <span className="text-green-700"> ({percentOff}% off)</span>}
+              </span>
+              <span className="font-medium whitespace-nowrap">{total} PKR</span>
+            </div>
+            {item.note.trim() && (
+              <p className="text-xs text-gray-500 italic mt-0.5">Note: {item.note.trim()}</p>
+            )}
+            <DietaryBadges details={item.details} className="mt-1" />
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-between text-sm font-medium">
+        <span>Subtotal:</span>
+        <span>{subtotal} PKR</span>
+      </div>
+
+      {allergens.length > 0 && (
+        <div className="flex gap-2 bg-red-50 border border-red-200 p-3 rounded-md text-sm text-red-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <p>
+            This order contains{' '}
+            {allergens.map((allergen) => ALLERGEN_LABELS[allergen].toLowerCase()).join(', ')}.
+            If anyone you're ordering for has an allergy, please message us before placing the order.
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-3 pt-2">
+        <button type="button" onClick={onCancel} className="flex-1 border py-2 rounded-md text-sm">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="flex-1 bg-amber-600 text-white py-2 rounded-md text-sm hover:bg-amber-700"
+        >
+          Continue
+        </button>
+      </div>
+    </form>
+  );
+}
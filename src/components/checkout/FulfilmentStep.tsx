@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import OptionCard from './OptionCard';
+import SlotPicker from './SlotPicker';
+import { FULFILMENT_OPTIONS, fulfilmentOption } from '../../lib/checkoutConfig';
+import { describeDeliveryZone, findDeliveryZone } from '../../lib/deliveryZones';
+import { fetchDeliveryZones } from '../../services/deliveryZoneService';
+import { DeliveryZone, Fulfilment, FulfilmentSlot } from '../../types';
+
+interface FulfilmentStepProps {
+  fulfilment: Fulfilment;
+  slot: FulfilmentSlot | null;
+  leadTimeHours: number;
+  isBookableDay: (date: string) => boolean;
+  area: string;
+  subtotal: number;
+  busy: boolean;
+  onBack: () => void;
+  onSubmit: (fulfilment: Fulfilment, slot: FulfilmentSlot | null) => void;
+}
+
+export default function FulfilmentStep({
+  fulfilment,
+  slot,
+  leadTimeHours,
+  isBookableDay,
+  area,
+  subtotal,
+  busy,
+  onBack,
+  onSubmit,
+}: FulfilmentStepProps) {
+  const [selected, setSelected] = useState(fulfilment);
+  const [selectedSlot, setSelectedSlot] = useState(slot);
+  const [zones, setZones] = useState<DeliveryZone[] | null>(null);
+
+  // If the zones fail to load, delivery is still offered; the order functions check the zone.
+  useEffect(() => {
+    fetchDeliveryZones()
+      .then(setZones)
+      .catch((err) => console.error('Error loading delivery zones:', err));
+  }, []);
+
+  const slotOption = fulfilmentOption(selected).slot;
+  const zone = zones && findDeliveryZone(zones, area);
+
+  let zoneProblem: string | null = null;
+  if (selected === 'delivery' && zones) {
+    if (!zone) {
+      zoneProblem =
+        `Sorry, we don't deliver to ${area} yet. Please choose pickup instead.`;
+    } else if (subtotal < zone.minOrderTotal) {
+      zoneProblem = `Delivery to ${zone.name} needs an order of at least ${zone.minOrderTotal} PKR.`;
+    }
+  }
+
+  const choose = (id: Fulfilment) => {
+    // Pickup slots and delivery windows are separate, so a slot does not carry across.
+    if (id !== selected) setSelectedSlot(null);
+    setSelected(id);
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(selected, slotOption ? selectedSlot : null);
+      }}
+      className="space-y-6"
+    >
+      <div className="space-y-3">
+        {FULFILMENT_OPTIONS.map((option) => (
+          <OptionCard
+            key={option.id}
+            name="fulfilment"
+            label={option.label}
+            description={option.description}
+            selected={selected === option.id}
+            onSelect={() => choose(option.id)}
+          />
+        ))}
+      </div>
+
+      {selected === 'delivery' && zone && !zoneProblem && (
+        <p className="flex items-center gap-2 text-sm text-gray-700">
+          <MapPin size={16} className="text-amber-600 flex-shrink-0" />
+          Delivering to {zone.name}: {describeDeliveryZone(zone)}
+        </p>
+      )}
+      {zoneProblem && <p className="text-sm text-red-700">{zoneProblem}</p>}
+
+      {slotOption && !zoneProblem && (
+        <div>
+          <h2 className="font-semibold text-gray-900 mb-3">{slotOption.heading}</h2>
+          <SlotPicker
+            fulfilment={selected}
+            leadTimeHours={leadTimeHours}
+            isBookableDay={isBookableDay}
+            selected={selectedSlot}
+            onSelect={setSelectedSlot}
+          />
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button type="button" onClick={onBack} disabled={busy} className="flex-1 border py-2 rounded-md text-sm">
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={busy || zoneProblem !== null || (slotOption !== null && !selectedSlot)}
+          className="flex-1 bg-amber-600 text-white py-2 rounded-md text-sm hover:bg-amber-700 disabled:opacity-50"
+        >
+          {busy ? 'Checking…' : 'Continue'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,32 @@
+interface OptionCardProps {
+  name: string;
+  label: string;
+  description: string;
+  selected: boolean;
+  onSelect: () => void;
+}
+
+// A radio choice drawn as a card, used for fulfilment and payment options.
+export default function OptionCard({ name, label, description, selected, onSelect }: OptionCardProps) {
+  return (
+    <label
+      className={`block border-2 rounded-lg p-4 cursor-pointer transition-all ${
+        selected ? 'border-amber-600 bg-amber-50' : 'border-gray-200 hover:border-amber-300 bg-white'
+      }`}
+    >
+      <div className="flex items-center gap-3">
+        <input
+          type="radio"
+          name={name}
+          checked={selected}
+          onChange={onSelect}
+          className="w-5 h-5 text-amber-600"
+        />
+        <div className="flex-1">
+          <p className="font-semibold text-gray-900">{label}</p>
+          <p className="text-sm text-gray-600">{description}</p>
+        </div>
+      </div>
+    </label>
+  );
+}
@@ -0,0 +1,55 @@
+import { Loader } from 'lucide-react';
+import { cartItemName } from '../../lib/cart';
+import { CartItem, OrderQuote } from '../../types';
+
+interface OrderSummaryProps {
+  cartItems: CartItem[];
+  quote: OrderQuote | null;
+}
+
+// Server prices for the cart, so the totals match what the order will store.
+export default function OrderSummary({ cartItems, quote }: OrderSummaryProps) {
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h3 className="font-semibold text-gray-900 mb-3">Order Summary</h3>
+      <div className="space-y-2 mb-3">
+        {cartItems.map((item, index) => (
+          <div key={item.lineId} className="flex justify-between text-sm">
+            <span className="text-gray-600">
+              {cartItemName(item)} x {item.quantity}
+            </span>
+            <span className="font-medium text-gray-800">
+              {(quote?.linePrices[index] ?? item.price) * item.quantity} PKR
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="border-t pt-3 space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-600">Subtotal:</span>
+          <span className="font-medium text-gray-800">{quote ? `${quote.subtotal} PKR` : '…'}</span>
+        </div>
+        {quote && quote.discount > 0 && (
+          <div className="flex justify-between text-sm text-green-700">
+            <span>Discount ({quote.promoCode}):</span>
+            <span className="font-medium">-{quote.discount} PKR</span>
+          </div>
+        )}
+        {quote && quote.deliveryFee > 0 && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">
+              Delivery Charge{quote.deliveryZone && ` (${quote.deliveryZone})`}:
+            </span>
+            <span className="font-medium text-gray-800">{quote.deliveryFee} PKR</span>
+          </div>
+        )}
+        <div className="flex justify-between pt-2 border-t">
+          <span className="font-bold text-gray-900">Total:</span>
+          <span className="font-bold text-amber-700 text-lg">
+            {quote ? `${quote.total} PKR` : <Loader className="w-5 h-5 animate-spin" />}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
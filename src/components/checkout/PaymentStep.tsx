@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { BadgePercent, X } from 'lucide-react';
+import OptionCard from './OptionCard';
+import OrderSummary from './OrderSummary';
+import { paymentMethodOption, paymentMethodsFor } from '../../lib/checkoutConfig';
+import { OrderRequestError, quoteOrder, toOrderLines } from '../../services/orderService';
+import { CartItem, Fulfilment, OrderQuote, PaymentMethod } from '../../types';
+
+interface PaymentStepProps {
+  cartItems: CartItem[];
+  fulfilment: Fulfilment;
+  area: string;
+  date: string | null;
+  paymentMethod: PaymentMethod;
+  promoCode: string | null;
+  quote: OrderQuote | null;
+  busy: boolean;
+  onSelectPayment: (paymentMethod: PaymentMethod) => void;
+  onApplyPromo: (promoCode: string | null) => void;
+  onBack: () => void;
+  onSubmit: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none';
+
+export default function PaymentStep({
+  cartItems,
+  fulfilment,
+  area,
+  date,
+  paymentMethod,
+  promoCode,
+  quote,
+  busy,
+  onSelectPayment,
+  onApplyPromo,
+  onBack,
+  onSubmit,
+}: PaymentStepProps) {
+  const [promoInput, setPromoInput] = useState('');
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+
+  const method = paymentMethodOption(paymentMethod);
+
+  // The code is checked against the cart before it is applied; the summary then prices it.
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim();
+    if (!code) return;
+
+    setPromoError(null);
+    setApplyingPromo(true);
+
+    try {
+      const checked = await quoteOrder(toOrderLines(cartItems), fulfilment, code, area, date);
+      onApplyPromo(checked.promoCode ?? code);
+      setPromoInput('');
+    } catch (err) {
+      console.error('Error applying promo code:', err);
+      setPromoError(
+        err instanceof OrderRequestError ? err.message : 'Failed to check the code. Please try again.'
+      );
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit();
+      }}
+      className="space-y-6"
+    >
+      <OrderSummary cartItems={cartItems} quote={quote} />
+
+      {promoCode ? (
+        <div className="flex items-center gap-2 bg-green-50 border border-green-200 px-3 py-2 rounded-md text-sm text-green-800">
+          <BadgePercent className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1">
+            <span className="font-mono font-semibold">{promoCode}</span> applied
+          </span>
+          <button
+            type="button"
+            onClick={() => onApplyPromo(null)}
+            className="p-1 hover:bg-green-100 rounded"
+            aria-label="Remove promo code"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <div>
+          <div className="flex gap-2">
+            <input
+              value={promoInput}
+              onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+              placeholder="Promo code"
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              type="button"
+              onClick={handleApplyPromo}
+              disabled={applyingPromo || !promoInput.trim()}
+              className="border border-amber-600 text-amber-700 px-4 rounded-md text-sm hover:bg-amber-50 disabled:opacity-50"
+            >
+              {applyingPromo ? 'Checking…' : 'Apply'}
+            </button>
+          </div>
+          {promoError && <p className="text-xs text-red-700 mt-1">{promoError}</p>}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {paymentMethodsFor(fulfilment).map((option) => (
+          <OptionCard
+            key={option.id}
+            name="payment"
+            label={option.label}
+            description={option.description}
+            selected={paymentMethod === option.id}
+            onSelect={() => onSelectPayment(option.id)}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <button type="button" onClick={onBack} className="flex-1 border py-2 rounded-md text-sm">
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={!quote || busy}
+          className="flex-1 bg-amber-600 text-white py-2 rounded-md text-sm hover:bg-amber-700 disabled:opacity-50"
+        >
+          {busy ? 'Processing…' : method.requiresProof ? 'Continue to Payment' : 'Place Order'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock, Copy, Loader, Upload } from 'lucide-react';
+import OrderSummary from './OrderSummary';
+import { PAYMENT_ACCOUNTS, PROOF_MAX_BYTES } from '../../lib/checkoutConfig';
+import { CartItem, OrderQuote } from '../../types';
+
+interface ProofStepProps {
+  cartItems: CartItem[];
+  quote: OrderQuote | null;
+  deadline: number;
+  busy: boolean;
+  onExpired: () => void;
+  onError: (message: string) => void;
+  onBack: () => void;
+  onSubmit: (proof: File) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const secondsUntil = (deadline: number) => Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+
+export default function ProofStep({
+  cartItems,
+  quote,
+  deadline,
+  busy,
+  onExpired,
+  onError,
+  onBack,
+  onSubmit,
+}: ProofStepProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [timeLeft, setTimeLeft] = useState(() => secondsUntil(deadline));
+  const [copied, setCopied] = useState<string | null>(null);
+  const [screenshot, setScreenshot] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState('');
+
+  // Counted from the stored deadline, so a refresh does not restart the clock.
+  useEffect(() => {
+    const timer = setInterval(() => setTimeLeft(secondsUntil(deadline)), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  useEffect(() => {
+    if (timeLeft === 0 && !busy) onExpired();
+  }, [timeLeft, busy, onExpired]);
+
+  useEffect(() => () => URL.revokeObjectURL(previewUrl), [previewUrl]);
+
+  const handleCopy = (text: string, id: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(id);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      onError('Please select an image file');
+      return;
+    }
+
+    if (file.size > PROOF_MAX_BYTES) {
+      onError('File size must be less than 5MB');
+      return;
+    }
+
+    setScreenshot(file);
+    setPreviewUrl(URL.createObjectURL(file));
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (screenshot) onSubmit(screenshot);
+      }}
+      className="space-y-6"
+    >
+      <div className="flex items-center justify-between bg-amber-50 border border-amber-200 px-4 py-3 rounded-lg">
+        <p className="text-sm text-amber-900">Complete your payment and upload proof within 10 minutes</p>
+        <div className="flex items-center gap-2 text-amber-900">
+          <Clock className="w-5 h-5" />
+          <span className="font-mono text-lg font-bold">{formatTime(timeLeft)}</span>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {PAYMENT_ACCOUNTS.map((account) => (
+          <div key={account.id} className="bg-gray-50 rounded-lg border-2 border-amber-100 p-4">
+            <h3 className="font-bold text-gray-900 mb-3">{account.label}</h3>
+            <div className="bg-white rounded-lg p-3 mb-3 border border-amber-100">
+              <p className="text-sm text-gray-600 mb-1">Send payment to:</p>
+              <p className="font-mono font-bold text-gray-900 break-all">{account.value}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleCopy(account.value, account.id)}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg font-semibold bg-amber-600 text-white hover:bg-amber-700 transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+              {copied === account.id ? 'Copied!' : account.copyLabel}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <OrderSummary cartItems={cartItems} quote={quote} />
+
+      <div>
+        <label className="block text-sm font-semibold text-gray-900 mb-3">Upload Payment Proof</label>
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          className="border-2 border-dashed border-amber-300 rounded-lg p-8 text-center cursor-pointer hover:bg-amber-50 transition-colors"
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          {previewUrl ? (
+            <div>
+              <img src={previewUrl} alt="Preview" className="max-h-40 mx-auto mb-3 rounded-lg" />
+              <p className="text-sm text-gray-600">{screenshot?.name}</p>
+              <p className="text-xs text-gray-500 mt-1">Click to change</p>
+            </div>
+          ) : (
+            <div>
+              <Upload className="w-8 h-8 text-amber-600 mx-auto mb-2" />
+              <p className="text-gray-900 font-semibold">Click to upload</p>
+              <p className="text-sm text-gray-600">Screenshot of Easypaisa or bank transfer confirmation</p>
+              <p className="text-xs text-gray-500 mt-2">PNG, JPG, GIF up to 5MB</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <button type="button" onClick={onBack} disabled={busy} className="flex-1 border py-2 rounded-md text-sm">
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={!screenshot || !quote || busy}
+          className="flex-1 bg-amber-600 text-white py-2 rounded-md text-sm hover:bg-amber-700 disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {busy ? (
+            <>
+              <Loader className="w-4 h-4 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            'Submit Payment Proof'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Loader } from 'lucide-react';
+import { SLOT_BOOKING_DAYS } from '../../lib/checkoutConfig';
+import {
+  formatSlotDay,
+  formatSlotTime,
+  groupSlotsByDay,
+  isSameSlot,
+} from '../../lib/fulfilmentSlots';
+import { fetchFulfilmentSlots } from '../../services/fulfilmentSlotService';
+import { Fulfilment, FulfilmentSlot } from '../../types';
+
+interface SlotPickerProps {
+  fulfilment: Fulfilment;
+  leadTimeHours: number;
+  // Days the cart can be collected or delivered on; slots on other days are left out.
+  isBookableDay: (date: string) => boolean;
+  selected: FulfilmentSlot | null;
+  onSelect: (slot: FulfilmentSlot | null) => void;
+}
+
+export default function SlotPicker({
+  fulfilment,
+  leadTimeHours,
+  isBookableDay,
+  selected,
+  onSelect,
+}: SlotPickerProps) {
+  const [slots, setSlots] = useState<FulfilmentSlot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSlots(null);
+    setError(null);
+    fetchFulfilmentSlots(fulfilment, SLOT_BOOKING_DAYS, leadTimeHours)
+      .then((data) =>
+        setSlots(data.filter((slot) => slot.remaining > 0 && isBookableDay(slot.date)))
+      )
+      .catch((err) => {
+        console.error('Error loading time slots:', err);
+        setError('Failed to load available times. Please try again.');
+      });
+  }, [fulfilment, leadTimeHours, isBookableDay]);
+
+  // A slot chosen earlier may have filled up or passed since; it has to be picked again.
+  useEffect(() => {
+    if (slots && selected && !slots.some((slot) => isSameSlot(slot, selected))) {
+      onSelect(null);
+    }
+  }, [slots, selected, onSelect]);
+
+  if (error) {
+    return <p className="text-sm text-red-700">{error}</p>;
+  }
+
+  if (!slots) {
+    return <Loader className="animate-spin text-amber-600 mx-auto" />;
+  }
+
+  if (slots.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">
+        There are no times left in the next {SLOT_BOOKING_DAYS} days. Please try another option or
+        check back later.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {leadTimeHours > 0 && (
+        <p className="text-sm text-gray-600">
+          Some items in your cart are made to order, so the earliest times are at least{' '}
+          {leadTimeHours} hours away.
+        </p>
+      )}
+      {groupSlotsByDay(slots).map(({ date, slots: daySlots }) => (
+        <div key={date}>
+          <p className="text-sm font-medium text-gray-700 mb-2">{formatSlotDay(date)}</p>
+          <div className="flex flex-wrap gap-2">
+            {daySlots.map((slot) => (
+              <button
+                key={slot.slotId}
+                type="button"
+                onClick={() => onSelect(slot)}
+                className={`px-3 py-2 rounded-md border text-sm transition-colors ${
+                  isSameSlot(slot, selected)
+                    ? 'border-amber-600 bg-amber-600 text-white'
+                    : 'border-gray-300 text-gray-700 hover:border-amber-400'
+                }`}
+              >
+                {formatSlotTime(slot.startsAt)} – {formatSlotTime(slot.endsAt)}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
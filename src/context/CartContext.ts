@@ -0,0 +1,20 @@
+import { createContext } from 'react';
+import { StoredCartLine } from '../lib/cartStorage';
+import { CakeCustomization, CartItem, Product, ProductVariant } from '../types';
+
+export interface CartContextValue {
+  cartItems: CartItem[];
+  // False until the saved cart has been restored against the catalog.
+  restored: boolean;
+  totalItems: number;
+  addToCart: (product: Product, variant: ProductVariant | null) => void;
+  addCustomCake: (product: Product, customization: CakeCustomization) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  updateNote: (lineId: string, note: string) => void;
+  removeItem: (lineId: string) => void;
+  clearCart: () => void;
+  addLines: (lines: StoredCartLine[]) => Promise<void>;
+  openCart: () => void;
+}
+
+export const CartContext = createContext<CartContextValue | null>(null);
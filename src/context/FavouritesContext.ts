@@ -0,0 +1,9 @@
+import { createContext } from 'react';
+
+export interface FavouritesContextValue {
+  favouriteIds: string[];
+  isFavourite: (productId: string) => boolean;
+  toggleFavourite: (productId: string) => void;
+}
+
+export const FavouritesContext = createContext<FavouritesContextValue | null>(null);
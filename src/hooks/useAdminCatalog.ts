@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fetchAdminCatalog } from '../services/catalogService';
+import { AdminCatalog } from '../types';
+
+export function useAdminCatalog() {
+  const [catalog, setCatalog] = useState<AdminCatalog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setCatalog(await fetchAdminCatalog());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading catalog:', err);
+      setError('Failed to load the catalog. Please refresh the page.');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { catalog, loading: !catalog && !error, error, reload };
+}
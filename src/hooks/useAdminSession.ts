@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { fetchSession, onSessionChange } from '../services/adminAuthService';
+
+export function useAdminSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSession()
+      .then(setSession)
+      .catch((err) => console.error('Error loading session:', err))
+      .finally(() => setLoading(false));
+
+    return onSessionChange(setSession);
+  }, []);
+
+  return { session, loading };
+}
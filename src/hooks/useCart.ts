@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { CartContext } from '../context/CartContext';
+
+export function useCart() {
+  const cart = useContext(CartContext);
+  if (!cart) {
+    throw new Error('useCart must be used inside CartProvider');
+  }
+  return cart;
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { fetchCatalog } from '../services/catalogService';
+import { Catalog } from '../types';
+
+// Shared across every section on the page so the catalog is only fetched once.
+let catalogRequest: Promise<Catalog> | null = null;
+
+function loadCatalog() {
+  if (!catalogRequest) {
+    catalogRequest = fetchCatalog().catch((err) => {
+      catalogRequest = null;
+      throw err;
+    });
+  }
+  return catalogRequest;
+}
+
+export function useCatalog() {
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadCatalog()
+      .then((data) => {
+        if (!cancelled) setCatalog(data);
+      })
+      .catch((err) => {
+        console.error('Error loading catalog:', err);
+        if (!cancelled) setError('Failed to load products. Please refresh the page.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { catalog, loading: !catalog && !error, error };
+}
+
+// Drops the cached catalog so the next mount refetches it, e.g. after admin edits.
+export function invalidateCatalog() {
+  catalogRequest = null;
+}
@@ -0,0 +1,28 @@
+import { useEffect, useReducer, useRef } from 'react';
+import {
+  checkoutReducer,
+  readStoredCheckout,
+  writeStoredCheckout,
+} from '../lib/checkoutMachine';
+
+// Checkout state survives a refresh; a finished checkout is cleared once the customer leaves it.
+export function useCheckout() {
+  const [state, dispatch] = useReducer(checkoutReducer, undefined, readStoredCheckout);
+  const latest = useRef(state);
+
+  useEffect(() => {
+    latest.current = state;
+    writeStoredCheckout(state);
+  }, [state]);
+
+  useEffect(
+    () => () => {
+      if (latest.current.step === 'confirmation') {
+        writeStoredCheckout(checkoutReducer(latest.current, { type: 'RESET' }));
+      }
+    },
+    []
+  );
+
+  return { state, dispatch };
+}
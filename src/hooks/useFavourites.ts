@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { FavouritesContext } from '../context/FavouritesContext';
+
+export function useFavourites() {
+  const favourites = useContext(FavouritesContext);
+  if (!favourites) {
+    throw new Error('useFavourites must be used inside FavouritesProvider');
+  }
+  return favourites;
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { OrderRequestError, quoteOrder, toOrderLines } from '../services/orderService';
+import { CartItem, Fulfilment, OrderQuote } from '../types';
+
+// Fetches server-side prices for the cart so the totals shown match what the order will store.
+export function useOrderQuote(
+  cartItems: CartItem[] | null,
+  fulfilment: Fulfilment,
+  promoCode: string | null = null,
+  area: string | null = null,
+  date: string | null = null
+) {
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cartItems) return;
+
+    let cancelled = false;
+    setError(null);
+
+    quoteOrder(toOrderLines(cartItems), fulfilment, promoCode, area, date)
+      .then((data) => {
+        if (!cancelled) setQuote(data);
+      })
+      .catch((err) => {
+        console.error('Error pricing order:', err);
+        if (!cancelled) {
+          setError(
+            err instanceof OrderRequestError
+              ? err.message
+              : 'Failed to calculate your total. Please refresh the page.'
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cartItems, fulfilment, promoCode, area, date]);
+
+  return { quote, loading: !quote && !error, error };
+}
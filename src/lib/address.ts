@@ -0,0 +1,48 @@
+import { Address } from '../types';
+
+// Matches ADDRESS_FIELD_MAX_LENGTH in supabase/functions/_shared/address.ts.
+export const ADDRESS_FIELD_MAX_LENGTH = 120;
+
+export const EMPTY_ADDRESS: Address = {
+  house: '',
+  street: '',
+  area: '',
+  city: 'Islamabad',
+  landmark: '',
+  location: null,
+};
+
+export const trimAddress = (address: Address): Address => ({
+  house: address.house.trim(),
+  street: address.street.trim(),
+  area: address.area.trim(),
+  city: address.city.trim(),
+  landmark: address.landmark.trim(),
+  location: address.location,
+});
+
+// Mirrors parseAddress in supabase/functions/_shared/address.ts, which has the final say.
+// Returns a message for the first problem, or null when the address can be submitted.
+export function validateAddress(address: Address) {
+  const { house, street, area, city } = trimAddress(address);
+  if (!house || !street || !area || !city) {
+    return 'Please fill in your house, street, area and city.';
+  }
+  return null;
+}
+
+// One line, e.g. "House 16, Street 50, F-7/4, Islamabad (near Jinnah Super)". Mirrors
+// formatAddress in supabase/functions/_shared/address.ts.
+export function formatAddress(address: Address) {
+  const line = [address.house, address.street, address.area, address.city]
+    .filter((part) => part)
+    .join(', ');
+  return address.landmark ? `${line} (near ${address.landmark})` : line;
+}
+
+export const mapLink = ({ lat, lng }: { lat: number; lng: number }) =>
+  `https://www.google.com/maps?q=${lat},${lng}`;
+
+// Saved addresses are the same place when every typed field matches; the pin may be refined.
+export const isSameAddress = (a: Address, b: Address) =>
+  formatAddress(trimAddress(a)).toLowerCase() === formatAddress(trimAddress(b)).toLowerCase();
@@ -0,0 +1,69 @@
+import { Product, ProductAvailability } from '../types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// How far ahead to look for the next selling day before giving up.
+const LOOKAHEAD_DAYS = 366;
+
+export interface AvailabilityStatus {
+  available: boolean;
+  nextAvailableDate: Date | null;
+}
+
+// Local calendar day as YYYY-MM-DD, comparable with the `date` columns in the catalog.
+export const toDateKey = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+const isSellingDay = (availability: ProductAvailability, date: Date) => {
+  const key = toDateKey(date);
+  if (availability.from && key < availability.from) return false;
+  if (availability.until && key > availability.until) return false;
+  return !availability.days || availability.days.includes(date.getDay());
+};
+
+export function getAvailability(product: Product, today = new Date()): AvailabilityStatus {
+  const { availability } = product;
+
+  if (availability.hidden) {
+    return { available: false, nextAvailableDate: null };
+  }
+
+  if (isSellingDay(availability, today)) {
+    return { available: true, nextAvailableDate: null };
+  }
+
+  const date = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  for (let i = 0; i < LOOKAHEAD_DAYS; i++) {
+    date.setDate(date.getDate() + 1);
+    if (isSellingDay(availability, date)) {
+      return { available: false, nextAvailableDate: new Date(date) };
+    }
+  }
+
+  return { available: false, nextAvailableDate: null };
+}
+
+// Whether the product can be collected or delivered on a "YYYY-MM-DD" day, such as a booked
+// slot's date. Mirrors isAvailableOn in supabase/functions/_shared/pricing.ts.
+export function isAvailableOn(product: Product, dateKey: string) {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return (
+    !product.availability.hidden &&
+    isSellingDay(product.availability, new Date(year, month - 1, day))
+  );
+}
+
+// Whether the product appears on the storefront at all, available or not.
+export function isListed(product: Product, today = new Date()) {
+  if (product.availability.hidden) return false;
+
+  const { available, nextAvailableDate } = getAvailability(product, today);
+  return available || (!product.availability.hideWhenUnavailable && nextAvailableDate !== null);
+}
+
+export const formatAvailableDate = (date: Date) =>
+  date.toLocaleDateString('en-PK', { weekday: 'short', day: 'numeric', month: 'short' });
@@ -0,0 +1,30 @@
+import { CartItem } from '../types';
+
+export const LOW_STOCK_THRESHOLD = 5;
+
+// Variant and customised lines of the same product share one daily capacity. `day` names the
+// day the capacity is for in messages, e.g. "today" or "Sat 18 Oct".
+export function findCapacityProblem(
+  cartItems: CartItem[],
+  remaining: Map<string, number>,
+  day = 'today'
+) {
+  const quantities = new Map<string, { name: string; quantity: number }>();
+
+  for (const item of cartItems) {
+    const entry = quantities.get(item.id) ?? { name: item.name, quantity: 0 };
+    entry.quantity += item.quantity;
+    quantities.set(item.id, entry);
+  }
+
+  for (const [productId, { name, quantity }] of quantities) {
+    const left = remaining.get(productId);
+    if (left === undefined || quantity <= left) continue;
+
+    return left === 0
+      ? `${name} is sold out for ${day}.`
+      : `Only ${left} left of ${name} for ${day}. Please reduce the quantity in your cart.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,40 @@
+import { customCakePrice } from './customCake';
+import { CakeCustomization, CartItem, Product, ProductVariant } from '../types';
+
+// Matches the limit on `order_items.note`.
+export const NOTE_MAX_LENGTH = 120;
+
+// Matches MAX_LINE_QUANTITY in supabase/functions/_shared/pricing.ts.
+export const MAX_LINE_QUANTITY = 99;
+
+export const cartLineId = (productId: string, variantId: string | null) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+export const customCakeLineId = (productId: string) => `${productId}:custom:${crypto.randomUUID()}`;
+
+export const createCartItem = (product: Product, variant: ProductVariant | null): CartItem => ({
+  ...product,
+  lineId: cartLineId(product.id, variant?.id ?? null),
+  price: variant ? variant.price : product.price,
+  quantity: 1,
+  variant,
+  customization: null,
+  note: '',
+});
+
+// Every configured cake gets its own line, even when two configurations match.
+export const createCustomCakeItem = (
+  product: Product,
+  customization: CakeCustomization
+): CartItem => ({
+  ...product,
+  lineId: customCakeLineId(product.id),
+  price: customCakePrice(product, customization),
+  quantity: 1,
+  variant: null,
+  customization,
+  note: '',
+});
+
+export const cartItemName = (item: CartItem) =>
+  item.variant ? `${item.name} - ${item.variant.label}` : item.name;
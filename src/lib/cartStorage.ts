@@ -0,0 +1,171 @@
+import { cartItemName, MAX_LINE_QUANTITY } from './cart';
+import { isListed } from './availability';
+import { customCakePrice } from './customCake';
+import { CakeCustomization, CakeOption, CartItem, Catalog } from '../types';
+
+export const CART_STORAGE_KEY = 'komugi_cart';
+
+// Bump when the stored line shape changes; carts saved with another version are discarded.
+export const CART_SCHEMA_VERSION = 1;
+
+// Only references and choices are stored. Names and prices always come from the live catalog.
+export interface StoredCartLine {
+  lineId: string;
+  productId: string;
+  variantId: string | null;
+  customization: CakeCustomization | null;
+  // Added after version 1 shipped; older carts simply have no notes.
+  note?: string;
+  quantity: number;
+  price: number;
+}
+
+export interface StoredCart {
+  version: number;
+  lines: StoredCartLine[];
+}
+
+export interface RestoredCart {
+  items: CartItem[];
+  removed: number;
+  repriced: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isStoredOption = (value: unknown) => isObject(value) && typeof value.id === 'string';
+
+const isStoredCustomization = (value: unknown) =>
+  value === null ||
+  (isObject(value) &&
+    isStoredOption(value.flavour) &&
+    isStoredOption(value.size) &&
+    isStoredOption(value.frosting) &&
+    typeof value.inscription === 'string' &&
+    (value.referenceImageUrl === null || typeof value.referenceImageUrl === 'string'));
+
+// Quantities are clamped to what an order accepts; anything unreadable becomes 1.
+const clampQuantity = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(MAX_LINE_QUANTITY, Math.max(1, Math.floor(value)))
+    : 1;
+
+// Lines that are not in the stored shape are dropped, as stale ones are when restoring.
+function toStoredCartLine(line: unknown): StoredCartLine | null {
+  if (
+    !isObject(line) ||
+    typeof line.lineId !== 'string' ||
+    typeof line.productId !== 'string' ||
+    (line.variantId !== null && typeof line.variantId !== 'string') ||
+    !isStoredCustomization(line.customization) ||
+    (line.note !== undefined && typeof line.note !== 'string') ||
+    typeof line.price !== 'number'
+  ) {
+    return null;
+  }
+
+  return { ...(line as unknown as StoredCartLine), quantity: clampQuantity(line.quantity) };
+}
+
+// Also used for shared cart snapshots, which are stored in the same format. Both are
+// untrusted, so every line is checked.
+export function storedCartLines(stored: unknown): StoredCartLine[] {
+  const cart = stored as StoredCart | null;
+  if (cart?.version !== CART_SCHEMA_VERSION || !Array.isArray(cart.lines)) return [];
+
+  return cart.lines
+    .map(toStoredCartLine)
+    .filter((line): line is StoredCartLine => line !== null);
+}
+
+export function parseStoredCart(value: string | null): StoredCartLine[] {
+  if (!value) return [];
+
+  try {
+    return storedCartLines(JSON.parse(value));
+  } catch {
+    return [];
+  }
+}
+
+export const readStoredCart = () => parseStoredCart(localStorage.getItem(CART_STORAGE_KEY));
+
+export const toStoredCart = (cartItems: CartItem[]): StoredCart => ({
+  version: CART_SCHEMA_VERSION,
+  lines: cartItems.map((item) => ({
+    lineId: item.lineId,
+    productId: item.id,
+    variantId: item.variant?.id ?? null,
+    customization: item.customization,
+    note: item.note,
+    quantity: item.quantity,
+    price: item.price,
+  })),
+});
+
+export function writeStoredCart(cartItems: CartItem[]) {
+  localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(toStoredCart(cartItems)));
+}
+
+export const hasCustomisedLines = (lines: StoredCartLine[]) =>
+  lines.some((line) => line.customization !== null);
+
+// Swaps each chosen cake option for its current version; null when one was retired.
+const refreshCustomization = (
+  customization: CakeCustomization,
+  options: CakeOption[]
+): CakeCustomization | null => {
+  const current = (option: CakeOption) => options.find((item) => item.id === option.id);
+  const flavour = current(customization.flavour);
+  const size = current(customization.size);
+  const frosting = current(customization.frosting);
+
+  return flavour && size && frosting ? { ...customization, flavour, size, frosting } : null;
+};
+
+// Rebuilds cart lines against the catalog: lines whose product, variant or cake options
+// are gone are dropped, and prices are recalculated from the current catalog.
+export function restoreCart(
+  lines: StoredCartLine[],
+  catalog: Catalog,
+  cakeOptions: CakeOption[]
+): RestoredCart {
+  const restored: RestoredCart = { items: [], removed: 0, repriced: [] };
+
+  for (const line of lines) {
+    const product = catalog.products.find((item) => item.id === line.productId);
+    const variant = product?.variants.find((item) => item.id === line.variantId) ?? null;
+    const customization =
+      line.customization && refreshCustomization(line.customization, cakeOptions);
+
+    if (
+      !product ||
+      !isListed(product) ||
+      (line.variantId !== null && !variant) ||
+      (line.customization !== null && !customization)
+    ) {
+      restored.removed += 1;
+      continue;
+    }
+
+    const item: CartItem = {
+      ...product,
+      lineId: line.lineId,
+      price: customization
+        ? customCakePrice(product, customization)
+        : variant
+          ? variant.price
+          : product.price,
+      quantity: clampQuantity(line.quantity),
+      variant,
+      customization,
+      note: line.note ?? '',
+    };
+
+    if (item.price !== line.price) restored.repriced.push(cartItemName(item));
+    restored.items.push(item);
+  }
+
+  return restored;
+}
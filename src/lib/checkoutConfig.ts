@@ -0,0 +1,102 @@
+import { Fulfilment, PaymentMethod } from '../types';
+
+export interface FulfilmentOption {
+  id: Fulfilment;
+  label: string;
+  description: string;
+  // Shows the pickup address and booked time once the order is placed.
+  showsPickupDetails: boolean;
+  // Booked before paying: the picker heading and how the booked time is labelled afterwards.
+  // NULL for fulfilments that are not scheduled.
+  slot: { heading: string; label: string } | null;
+}
+
+export interface PaymentMethodOption {
+  id: PaymentMethod;
+  label: string;
+  description: string;
+  fulfilments: Fulfilment[];
+  // Online payments wait on the proof step for a screenshot before the order is created.
+  requiresProof: boolean;
+  confirmationTitle: string;
+  confirmationMessage: string;
+}
+
+export interface PaymentAccount {
+  id: string;
+  label: string;
+  value: string;
+  copyLabel: string;
+}
+
+// Checkout is driven by these lists; supabase/functions/create-order/index.ts mirrors which
+// payment methods go with which fulfilments.
+export const FULFILMENT_OPTIONS: FulfilmentOption[] = [
+  {
+    id: 'pickup',
+    label: 'Pick Up Yourself',
+    description: 'Collect your order from our kitchen in F-7/4.',
+    showsPickupDetails: true,
+    slot: { heading: 'Choose a pickup time', label: 'Pickup' },
+  },
+  {
+    id: 'delivery',
+    label: 'Delivery',
+    description: 'We deliver to your address in the window you choose. The charge depends on your area.',
+    showsPickupDetails: false,
+    slot: { heading: 'Choose a delivery window', label: 'Delivery' },
+  },
+];
+
+export const PAYMENT_METHODS: PaymentMethodOption[] = [
+  {
+    id: 'cash',
+    label: 'Cash Payment',
+    description: 'Pay with cash when you pick up',
+    fulfilments: ['pickup'],
+    requiresProof: false,
+    confirmationTitle: 'Order Placed Successfully',
+    confirmationMessage: 'Your order has been confirmed!',
+  },
+  {
+    id: 'online',
+    label: 'Online Payment',
+    description: 'Pay online via Easypaisa or bank transfer',
+    fulfilments: ['pickup', 'delivery'],
+    requiresProof: true,
+    confirmationTitle: 'Payment Submitted',
+    confirmationMessage: "Your payment proof has been received. We'll verify it shortly.",
+  },
+];
+
+export const PAYMENT_ACCOUNTS: PaymentAccount[] = [
+  { id: 'easypaisa', label: 'Easypaisa Payment', value: '03001234567', copyLabel: 'Copy Number' },
+  {
+    id: 'bank',
+    label: 'Bank Transfer',
+    value: 'IBAN: PK36 ABCD 0123 4567 8901 2345',
+    copyLabel: 'Copy IBAN',
+  },
+];
+
+// Pickup times come from the store hours and slots on the admin Time Slots tab.
+export const PICKUP_DETAILS = {
+  address: 'F-7/4 ST:50 House:16',
+};
+
+// How far ahead customers can book a pickup slot or delivery window.
+export const SLOT_BOOKING_DAYS = 7;
+
+// Matches PAYMENT_WINDOW_MINUTES in the create-order function.
+export const PROOF_WINDOW_MS = 10 * 60 * 1000;
+
+export const PROOF_MAX_BYTES = 5 * 1024 * 1024;
+
+export const fulfilmentOption = (id: Fulfilment) =>
+  FULFILMENT_OPTIONS.find((option) => option.id === id) ?? FULFILMENT_OPTIONS[0];
+
+export const paymentMethodOption = (id: PaymentMethod) =>
+  PAYMENT_METHODS.find((method) => method.id === id) ?? PAYMENT_METHODS[0];
+
+export const paymentMethodsFor = (fulfilment: Fulfilment) =>
+  PAYMENT_METHODS.filter((method) => method.fulfilments.includes(fulfilment));
@@ -0,0 +1,142 @@
+import { EMPTY_ADDRESS } from './address';
+import {
+  fulfilmentOption,
+  PROOF_WINDOW_MS,
+  paymentMethodOption,
+  paymentMethodsFor,
+} from './checkoutConfig';
+import { CustomerDetails, Fulfilment, FulfilmentSlot, PaymentMethod, PlacedOrder } from '../types';
+
+export type CheckoutStep = 'details' | 'fulfilment' | 'payment' | 'proof' | 'confirmation';
+
+export interface CheckoutState {
+  step: CheckoutStep;
+  customer: CustomerDetails;
+  fulfilment: Fulfilment;
+  // Set only for fulfilments that are booked into a slot.
+  slot: FulfilmentSlot | null;
+  paymentMethod: PaymentMethod;
+  promoCode: string | null;
+  // When the payment proof has to be uploaded by, in epoch milliseconds.
+  proofDeadline: number | null;
+  order: PlacedOrder | null;
+}
+
+export type CheckoutAction =
+  | { type: 'SUBMIT_DETAILS'; customer: CustomerDetails }
+  | { type: 'CHOOSE_FULFILMENT'; fulfilment: Fulfilment; slot: FulfilmentSlot | null }
+  | { type: 'SELECT_PAYMENT'; paymentMethod: PaymentMethod }
+  | { type: 'APPLY_PROMO'; promoCode: string | null }
+  | { type: 'START_PROOF'; now: number }
+  | { type: 'PROOF_EXPIRED' }
+  | { type: 'SLOT_UNAVAILABLE' }
+  | { type: 'ORDER_PLACED'; order: PlacedOrder }
+  | { type: 'BACK' }
+  | { type: 'RESET' };
+
+export const CHECKOUT_STORAGE_KEY = 'komugi_checkout';
+
+// Bump when the stored state shape changes; checkouts saved with another version start over.
+const CHECKOUT_SCHEMA_VERSION = 4;
+
+// Handoff keys from the old per-fulfilment payment pages, cleared so stale orders cannot linger.
+const LEGACY_STORAGE_KEYS = ['pickup_order_data', 'pickup_online_order_data', 'delivery_order_data'];
+
+export const initialCheckoutState: CheckoutState = {
+  step: 'details',
+  customer: { name: '', email: '', phone: '', address: EMPTY_ADDRESS },
+  fulfilment: 'pickup',
+  slot: null,
+  paymentMethod: 'cash',
+  promoCode: null,
+  proofDeadline: null,
+  order: null,
+};
+
+const PREVIOUS_STEP: Partial<Record<CheckoutStep, CheckoutStep>> = {
+  fulfilment: 'details',
+  payment: 'fulfilment',
+  proof: 'payment',
+};
+
+// Every transition is listed here; actions that do not apply to the current step are ignored,
+// so a stale click or a resumed tab cannot skip a step.
+export function checkoutReducer(state: CheckoutState, action: CheckoutAction): CheckoutState {
+  switch (action.type) {
+    case 'SUBMIT_DETAILS':
+      return state.step === 'details'
+        ? { ...state, customer: action.customer, step: 'fulfilment' }
+        : state;
+
+    case 'CHOOSE_FULFILMENT': {
+      if (state.step !== 'fulfilment') return state;
+      const booksSlot = fulfilmentOption(action.fulfilment).slot !== null;
+      if (booksSlot && !action.slot) return state;
+      const methods = paymentMethodsFor(action.fulfilment);
+      const paymentMethod = methods.some((method) => method.id === state.paymentMethod)
+        ? state.paymentMethod
+        : methods[0].id;
+      return {
+        ...state,
+        fulfilment: action.fulfilment,
+        slot: booksSlot ? action.slot : null,
+        paymentMethod,
+        step: 'payment',
+      };
+    }
+
+    case 'SELECT_PAYMENT':
+      return state.step === 'payment' ? { ...state, paymentMethod: action.paymentMethod } : state;
+
+    case 'APPLY_PROMO':
+      return state.step === 'payment' ? { ...state, promoCode: action.promoCode } : state;
+
+    case 'START_PROOF':
+      return state.step === 'payment' && paymentMethodOption(state.paymentMethod).requiresProof
+        ? { ...state, step: 'proof', proofDeadline: action.now + PROOF_WINDOW_MS }
+        : state;
+
+    case 'PROOF_EXPIRED':
+      return state.step === 'proof' ? { ...state, step: 'payment', proofDeadline: null } : state;
+
+    // The booked slot filled up, closed or is too soon for the cart; the customer picks another.
+    case 'SLOT_UNAVAILABLE':
+      return state.step === 'payment' || state.step === 'proof'
+        ? { ...state, step: 'fulfilment', slot: null, proofDeadline: null }
+        : state;
+
+    case 'ORDER_PLACED':
+      return state.step === 'payment' || state.step === 'proof'
+        ? { ...state, step: 'confirmation', proofDeadline: null, order: action.order }
+        : state;
+
+    case 'BACK': {
+      const previous = PREVIOUS_STEP[state.step];
+      return previous ? { ...state, step: previous, proofDeadline: null } : state;
+    }
+
+    case 'RESET':
+      // Customer details are kept so a second order does not mean typing them again.
+      return { ...initialCheckoutState, customer: state.customer };
+  }
+}
+
+export function readStoredCheckout(): CheckoutState {
+  LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(CHECKOUT_STORAGE_KEY) ?? 'null');
+    return stored?.version === CHECKOUT_SCHEMA_VERSION
+      ? { ...initialCheckoutState, ...stored.state }
+      : initialCheckoutState;
+  } catch {
+    return initialCheckoutState;
+  }
+}
+
+export function writeStoredCheckout(state: CheckoutState) {
+  localStorage.setItem(
+    CHECKOUT_STORAGE_KEY,
+    JSON.stringify({ version: CHECKOUT_SCHEMA_VERSION, state })
+  );
+}
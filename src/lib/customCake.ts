@@ -0,0 +1,19 @@
+import { CakeCustomization, Product } from '../types';
+
+export const INSCRIPTION_MAX_LENGTH = 40;
+
+export const customCakePrice = (product: Product, customization: CakeCustomization) =>
+  product.price +
+  customization.flavour.priceDelta +
+  customization.size.priceDelta +
+  customization.frosting.priceDelta;
+
+// One line per option, used in the cart, the WhatsApp message and the admin order list.
+export const describeCustomization = (customization: CakeCustomization) =>
+  [
+    `Flavour: ${customization.flavour.label}`,
+    `Size: ${customization.size.label}`,
+    `Frosting: ${customization.frosting.label}`,
+    ...(customization.inscription ? [`Message: "${customization.inscription}"`] : []),
+    ...(customization.referenceImageUrl ? ['Reference image attached'] : []),
+  ];
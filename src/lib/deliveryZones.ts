@@ -0,0 +1,28 @@
+import { DeliveryZone } from '../types';
+
+export const normaliseArea = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Mirrors findDeliveryZone in supabase/functions/_shared/pricing.ts, which has the final say.
+// The zone naming the longest area found as whole words in the customer's area wins, so
+// "DHA Phase 2" beats a zone listing just "DHA", and "F-7" matches "F-7/4".
+export function findDeliveryZone(zones: DeliveryZone[], area: string) {
+  const haystack = ` ${normaliseArea(area)} `;
+  let best: { zone: DeliveryZone; length: number } | null = null;
+
+  for (const zone of zones) {
+    for (const area of zone.areas) {
+      const needle = normaliseArea(area);
+      if (needle && haystack.includes(` ${needle} `) && needle.length > (best?.length ?? 0)) {
+        best = { zone, length: needle.length };
+      }
+    }
+  }
+
+  return best?.zone ?? null;
+}
+
+export const describeDeliveryZone = (zone: DeliveryZone) =>
+  zone.minOrderTotal > 0
+    ? `${zone.fee} PKR delivery · minimum order ${zone.minOrderTotal} PKR`
+    : `${zone.fee} PKR delivery`;
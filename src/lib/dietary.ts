@@ -0,0 +1,28 @@
+import { Allergen, CartItem, DietaryLabel } from '../types';
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: 'Gluten',
+  eggs: 'Eggs',
+  milk: 'Milk',
+  'tree-nuts': 'Tree nuts',
+  peanuts: 'Peanuts',
+  soy: 'Soy',
+  sesame: 'Sesame',
+};
+
+export const DIETARY_LABELS: Record<DietaryLabel, string> = {
+  eggless: 'Eggless',
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  'gluten-free': 'Gluten free',
+  'nut-free': 'Nut free',
+};
+
+export const ALLERGENS = Object.keys(ALLERGEN_LABELS) as Allergen[];
+export const DIETARY_OPTIONS = Object.keys(DIETARY_LABELS) as DietaryLabel[];
+
+// Every allergen present anywhere in the cart, in vocabulary order.
+export const cartAllergens = (cartItems: CartItem[]) =>
+  ALLERGENS.filter((allergen) =>
+    cartItems.some((item) => item.details.allergens.includes(allergen))
+  );
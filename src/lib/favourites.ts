@@ -0,0 +1,29 @@
+export const FAVOURITES_STORAGE_KEY = 'komugi_favourites';
+const DEVICE_ID_STORAGE_KEY = 'komugi_device_id';
+
+export function parseFavourites(value: string | null): string[] {
+  if (!value) return [];
+
+  try {
+    const stored = JSON.parse(value);
+    return Array.isArray(stored) ? stored.filter((id) => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export const readFavourites = () => parseFavourites(localStorage.getItem(FAVOURITES_STORAGE_KEY));
+
+export function writeFavourites(productIds: string[]) {
+  localStorage.setItem(FAVOURITES_STORAGE_KEY, JSON.stringify(productIds));
+}
+
+// Anonymous and per browser; it only ties this browser's favourites together on the server.
+export function deviceId() {
+  let id = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+  }
+  return id;
+}
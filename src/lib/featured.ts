@@ -0,0 +1,27 @@
+import { isListed } from './availability';
+import { CUSTOMISED_CATEGORY_ID } from '../services/catalogService';
+import { Product } from '../types';
+
+export const FEATURED_LIMIT = 4;
+
+// Pinned products come first; top sellers fill the remaining slots, then the menu
+// order does, so a new shop with no sales still has a full row.
+export function pickFeatured(products: Product[], bestsellerIds: string[], limit = FEATURED_LIMIT) {
+  const candidates = products.filter(
+    (product) => product.categoryId !== CUSTOMISED_CATEGORY_ID && isListed(product)
+  );
+  const byId = new Map(candidates.map((product) => [product.id, product]));
+
+  const pinned = candidates.filter((product) => product.isFeatured);
+  const bestsellers = bestsellerIds
+    .map((id) => byId.get(id))
+    .filter((product): product is Product => product !== undefined);
+
+  const featured = new Set(pinned);
+  for (const product of [...bestsellers, ...candidates]) {
+    if (featured.size >= limit) break;
+    featured.add(product);
+  }
+
+  return [...featured].slice(0, limit);
+}
@@ -0,0 +1,71 @@
+import { isAvailableOn } from './availability';
+import { CartItem, FulfilmentSlot } from '../types';
+
+// Pickup and delivery times are shown in the bakery's time zone, wherever the customer is.
+const BAKERY_TIME_ZONE = 'Asia/Karachi';
+
+export const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+export const formatSlotTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-PK', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: BAKERY_TIME_ZONE,
+  });
+
+// `date` is a bakery-local "YYYY-MM-DD", so it is read as UTC to keep the same calendar day.
+export const formatSlotDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-PK', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+
+export const formatSlotDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-PK', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: BAKERY_TIME_ZONE,
+  });
+
+export const formatSlotWindow = (startsAt: string, endsAt: string) =>
+  `${formatSlotDate(startsAt)}, ${formatSlotTime(startsAt)} – ${formatSlotTime(endsAt)}`;
+
+export const isSameSlot = (a: FulfilmentSlot | null, b: FulfilmentSlot | null) =>
+  a !== null && b !== null && a.slotId === b.slotId && a.date === b.date;
+
+// Slots grouped by day in the order they come, for the checkout picker.
+export function groupSlotsByDay(slots: FulfilmentSlot[]) {
+  const days = new Map<string, FulfilmentSlot[]>();
+  for (const slot of slots) {
+    days.set(slot.date, [...(days.get(slot.date) ?? []), slot]);
+  }
+  return [...days].map(([date, daySlots]) => ({ date, slots: daySlots }));
+}
+
+// The cart can only be ready once its slowest product is, so that sets the earliest slot.
+export const cartLeadTimeHours = (cartItems: CartItem[]) =>
+  cartItems.reduce((hours, item) => Math.max(hours, item.leadTimeHours), 0);
+
+// Slots can only be booked on days every item in the cart is on sale.
+export const isCartAvailableOn = (cartItems: CartItem[], date: string) =>
+  cartItems.every((item) => isAvailableOn(item, date));
+
+export function describeLeadTime(hours: number) {
+  if (hours === 0) return null;
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `Order ${days} ${days === 1 ? 'day' : 'days'} ahead`;
+  }
+  return `Order ${hours} ${hours === 1 ? 'hour' : 'hours'} ahead`;
+}
@@ -0,0 +1,50 @@
+// Browser-side image resizing used when admins upload product photos.
+
+export const VARIANT_WIDTHS = [320, 640, 1024];
+
+const PLACEHOLDER_WIDTH = 16;
+const QUALITY = 0.8;
+
+export type VariantFormat = 'image/webp' | 'image/avif';
+
+export interface ResizedImage {
+  width: number;
+  format: VariantFormat;
+  blob: Blob;
+}
+
+const drawScaled = (bitmap: ImageBitmap, width: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round((bitmap.height / bitmap.width) * width);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Browsers that cannot encode a format silently fall back to PNG, so check what came back.
+const encode = (canvas: HTMLCanvasElement, format: VariantFormat) =>
+  new Promise<Blob | null>((resolve) =>
+    canvas.toBlob((blob) => resolve(blob?.type === format ? blob : null), format, QUALITY)
+  );
+
+// Resizes to every variant width narrower than the original (plus the original width
+// when it is smaller than all of them) and encodes WebP, and AVIF where supported.
+export async function resizeImage(source: Blob) {
+  const bitmap = await createImageBitmap(source);
+  const widths = VARIANT_WIDTHS.filter((width) => width < bitmap.width);
+  if (widths.length === 0) widths.push(bitmap.width);
+
+  const images: ResizedImage[] = [];
+  for (const width of widths) {
+    const canvas = drawScaled(bitmap, width);
+    for (const format of ['image/webp', 'image/avif'] as const) {
+      const blob = await encode(canvas, format);
+      if (blob) images.push({ width, format, blob });
+    }
+  }
+
+  const placeholder = drawScaled(bitmap, PLACEHOLDER_WIDTH).toDataURL('image/jpeg', 0.6);
+  bitmap.close();
+
+  return { images, placeholder };
+}
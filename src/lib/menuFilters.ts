@@ -0,0 +1,82 @@
+import { Product } from '../types';
+
+export type MenuSort = 'featured' | 'popular' | 'price-asc' | 'price-desc';
+
+export const ALL_CATEGORIES = 'All';
+
+export const SORT_OPTIONS: { value: MenuSort; label: string }[] = [
+  { value: 'featured', label: 'Our picks' },
+  { value: 'popular', label: 'Most popular' },
+  { value: 'price-asc', label: 'Price: low to high' },
+  { value: 'price-desc', label: 'Price: high to low' },
+];
+
+export interface MenuFilters {
+  category: string;
+  query: string;
+  tags: string[];
+  sort: MenuSort;
+}
+
+// Filters live in the URL (e.g. `/?category=Brownies&q=matcha&tag=eggless`) so they can be shared.
+export function parseMenuFilters(params: URLSearchParams): MenuFilters {
+  const sort = params.get('sort') as MenuSort | null;
+
+  return {
+    category: params.get('category') || ALL_CATEGORIES,
+    query: params.get('q') ?? '',
+    tags: params.getAll('tag'),
+    sort: SORT_OPTIONS.some((option) => option.value === sort) ? sort! : 'featured',
+  };
+}
+
+// Default values are left out so the plain home page URL stays clean.
+export function writeMenuFilters(params: URLSearchParams, filters: MenuFilters) {
+  const next = new URLSearchParams(params);
+  ['category', 'q', 'tag', 'sort'].forEach((key) => next.delete(key));
+
+  if (filters.category !== ALL_CATEGORIES) next.set('category', filters.category);
+  if (filters.query) next.set('q', filters.query);
+  filters.tags.forEach((tag) => next.append('tag', tag));
+  if (filters.sort !== 'featured') next.set('sort', filters.sort);
+
+  return next;
+}
+
+export const hasMenuFilters = (params: URLSearchParams) =>
+  ['category', 'q', 'tag', 'sort'].some((key) => params.has(key));
+
+// Lowest price a customer can pay for the product, used for price sorting.
+export const startingPrice = (product: Product) =>
+  product.variants.length > 0
+    ? Math.min(...product.variants.map((variant) => variant.price))
+    : product.price;
+
+const matchesQuery = (product: Product, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [product.name, product.description, product.category, ...product.tags]
+    .join(' ')
+    .toLowerCase();
+
+  return terms.every((term) => haystack.includes(term));
+};
+
+export function applyMenuFilters(products: Product[], filters: MenuFilters) {
+  const filtered = products.filter(
+    (product) =>
+      (filters.category === ALL_CATEGORIES || product.category === filters.category) &&
+      filters.tags.every((tag) => product.tags.includes(tag)) &&
+      matchesQuery(product, filters.query)
+  );
+
+  switch (filters.sort) {
+    case 'popular':
+      return [...filtered].sort((a, b) => b.unitsSold - a.unitsSold);
+    case 'price-asc':
+      return [...filtered].sort((a, b) => startingPrice(a) - startingPrice(b));
+    case 'price-desc':
+      return [...filtered].sort((a, b) => startingPrice(b) - startingPrice(a));
+    default:
+      return filtered;
+  }
+}
@@ -0,0 +1,38 @@
+import { cartItemName } from './cart';
+import { CartItem, PastOrder, PlacedOrder } from '../types';
+
+export const ORDER_HISTORY_STORAGE_KEY = 'komugi_order_history';
+
+// Enough for weekly regulars; older orders can still be repeated from their order ID.
+const ORDER_HISTORY_LIMIT = 10;
+
+export function readOrderHistory(): PastOrder[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ORDER_HISTORY_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+// Keeps a summary of orders placed on this device. The lines themselves are fetched again
+// by order token when the customer repeats an order, so they always match what was placed.
+export function rememberOrder(order: PlacedOrder, cartItems: CartItem[]) {
+  const entry: PastOrder = {
+    orderToken: order.orderToken,
+    placedAt: new Date().toISOString(),
+    total: order.total,
+    items: cartItems.map((item) => `${item.quantity} × ${cartItemName(item)}`),
+  };
+
+  const history = [
+    entry,
+    ...readOrderHistory().filter((past) => past.orderToken !== order.orderToken),
+  ].slice(0, ORDER_HISTORY_LIMIT);
+
+  try {
+    localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (err) {
+    console.error('Error saving order history:', err);
+  }
+}
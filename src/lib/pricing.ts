@@ -0,0 +1,50 @@
+import { CartItem, PriceTier } from '../types';
+
+export interface PricedCartLine {
+  item: CartItem;
+  unitPrice: number;
+  percentOff: number;
+  total: number;
+}
+
+// The best tier the quantity reaches; 0 when none applies.
+export const tierPercentOff = (tiers: PriceTier[], quantity: number) =>
+  tiers.reduce(
+    (best, tier) => (quantity >= tier.minQuantity && tier.percentOff > best ? tier.percentOff : best),
+    0
+  );
+
+// The next tier worth more than the current one, for "add 1 more to save 10%" hints.
+export const nextPriceTier = (tiers: PriceTier[], quantity: number) =>
+  [...tiers]
+    .sort((a, b) => a.minQuantity - b.minQuantity)
+    .find((tier) => tier.minQuantity > quantity && tier.percentOff > tierPercentOff(tiers, quantity)) ??
+  null;
+
+export const describePriceTier = (tier: PriceTier) =>
+  `Buy ${tier.minQuantity}+, save ${tier.percentOff}%`;
+
+export const applyPercentOff = (price: number, percentOff: number) =>
+  Math.round((price * (100 - percentOff)) / 100);
+
+// Units of each product across every cart line, so sizes and customised cakes share a tier.
+export function productQuantities(cartItems: CartItem[]) {
+  const quantities = new Map<string, number>();
+  for (const item of cartItems) {
+    quantities.set(item.id, (quantities.get(item.id) ?? 0) + item.quantity);
+  }
+  return quantities;
+}
+
+// Mirrors the tier pricing in supabase/functions/_shared/pricing.ts, which has the final say.
+export function priceCart(cartItems: CartItem[]) {
+  const quantities = productQuantities(cartItems);
+
+  const lines: PricedCartLine[] = cartItems.map((item) => {
+    const percentOff = tierPercentOff(item.priceTiers, quantities.get(item.id) ?? 0);
+    const unitPrice = applyPercentOff(item.price, percentOff);
+    return { item, unitPrice, percentOff, total: unitPrice * item.quantity };
+  });
+
+  return { lines, subtotal: lines.reduce((sum, line) => sum + line.total, 0) };
+}
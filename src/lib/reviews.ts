@@ -0,0 +1,7 @@
+import { PostgrestError } from '@supabase/supabase-js';
+
+export const REVIEW_AUTHOR_MAX_LENGTH = 60;
+export const REVIEW_BODY_MAX_LENGTH = 500;
+
+// `submit_review` tags its own errors so their messages can be shown to the customer.
+export const isReviewError = (error: PostgrestError) => error.hint === 'review_not_allowed';
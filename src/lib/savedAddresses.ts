@@ -0,0 +1,40 @@
+import { isSameAddress } from './address';
+import { Address } from '../types';
+
+export const SAVED_ADDRESSES_STORAGE_KEY = 'komugi_saved_addresses';
+
+// Home, work and a couple of relatives covers nearly everyone.
+const SAVED_ADDRESSES_LIMIT = 5;
+
+export function readSavedAddresses(): Address[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SAVED_ADDRESSES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((item) => typeof item?.area === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSavedAddresses(addresses: Address[]) {
+  try {
+    localStorage.setItem(SAVED_ADDRESSES_STORAGE_KEY, JSON.stringify(addresses));
+  } catch (err) {
+    console.error('Error saving addresses:', err);
+  }
+}
+
+// Keeps the addresses used for orders on this device, most recent first.
+export function rememberAddress(address: Address) {
+  writeSavedAddresses(
+    [address, ...readSavedAddresses().filter((saved) => !isSameAddress(saved, address))].slice(
+      0,
+      SAVED_ADDRESSES_LIMIT
+    )
+  );
+}
+
+export function forgetAddress(address: Address) {
+  const remaining = readSavedAddresses().filter((saved) => !isSameAddress(saved, address));
+  writeSavedAddresses(remaining);
+  return remaining;
+}
@@ -1,6 +1,6 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
-let supabaseInstance: ReturnType<typeof createClient> | null = null;
+let supabaseInstance: SupabaseClient | null = null;
 
 function initializeSupabase() {
   const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -17,7 +17,7 @@ function initializeSupabase() {
   return supabaseInstance;
 }
 
-export const supabase = new Proxy({} as ReturnType<typeof createClient>, {
+export const supabase = new Proxy({} as SupabaseClient, {
   get: (_target, prop) => {
     const instance = initializeSupabase();
     return (instance as any)[prop];
@@ -0,0 +1,299 @@
+import { useCallback, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { AlertCircle, Loader } from 'lucide-react';
+import DetailsStep from '../components/checkout/DetailsStep';
+import FulfilmentStep from '../components/checkout/FulfilmentStep';
+import PaymentStep from '../components/checkout/PaymentStep';
+import ProofStep from '../components/checkout/ProofStep';
+import ConfirmationStep from '../components/checkout/ConfirmationStep';
+import { useCart } from '../hooks/useCart';
+import { useCheckout } from '../hooks/useCheckout';
+import { useOrderQuote } from '../hooks/useOrderQuote';
+import { findCapacityProblem } from '../lib/capacity';
+import { paymentMethodOption } from '../lib/checkoutConfig';
+import { CheckoutAction, CheckoutStep } from '../lib/checkoutMachine';
+import { cartLeadTimeHours, formatSlotDay, isCartAvailableOn } from '../lib/fulfilmentSlots';
+import { rememberOrder } from '../lib/orderHistory';
+import { priceCart } from '../lib/pricing';
+import { rememberAddress } from '../lib/savedAddresses';
+import { fetchRemainingCapacity } from '../services/catalogService';
+import { sendOrderEmails } from '../services/emailService';
+import {
+  createOrder,
+  OrderRequestError,
+  toOrderLines,
+  uploadPaymentProof,
+} from '../services/orderService';
+import { Fulfilment, FulfilmentSlot } from '../types';
+
+const STEP_TITLES: Record<CheckoutStep, string> = {
+  details: 'Your Details',
+  fulfilment: 'Pickup or Delivery',
+  payment: 'Select Payment Method',
+  proof: 'Online Payment',
+  confirmation: 'Thank You',
+};
+
+export default function Checkout() {
+  const navigate = useNavigate();
+  const { cartItems, restored, clearCart } = useCart();
+  const { state, dispatch } = useCheckout();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const priced = state.step === 'payment' || state.step === 'proof';
+  const { quote, error: quoteError } = useOrderQuote(
+    priced ? cartItems : null,
+    state.fulfilment,
+    state.promoCode,
+    state.customer.address.area,
+    state.slot?.date ?? null
+  );
+
+  const go = useCallback(
+    (action: CheckoutAction) => {
+      setError(null);
+      dispatch(action);
+    },
+    [dispatch]
+  );
+
+  const isBookableDay = useCallback(
+    (date: string) => isCartAvailableOn(cartItems, date),
+    [cartItems]
+  );
+
+  const handleProofExpired = useCallback(() => {
+    dispatch({ type: 'PROOF_EXPIRED' });
+    setError('Time ran out to upload your payment proof. Please start the payment again.');
+  }, [dispatch]);
+
+  // Daily capacity is counted against the booked day, so it can only be checked once one is chosen.
+  const handleFulfilment = async (fulfilment: Fulfilment, slot: FulfilmentSlot | null) => {
+    setError(null);
+    setBusy(true);
+
+    try {
+      const capacityProblem = findCapacityProblem(
+        cartItems,
+        await fetchRemainingCapacity(slot?.date),
+        slot ? formatSlotDay(slot.date) : 'today'
+      );
+      if (capacityProblem) {
+        setError(capacityProblem);
+        return;
+      }
+      dispatch({ type: 'CHOOSE_FULFILMENT', fulfilment, slot });
+    } catch (err) {
+      console.error('Error checking capacity:', err);
+      setError('Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const placeOrder = async (proof: File | null) => {
+    setError(null);
+    setBusy(true);
+
+    try {
+      let paymentProofUrl: string | null = null;
+      if (proof) {
+        try {
+          paymentProofUrl = await uploadPaymentProof(proof, state.fulfilment);
+        } catch (err) {
+          console.error('Error uploading payment proof:', err);
+          setError('Failed to upload payment proof. Please try again.');
+          return;
+        }
+      }
+
+      const order = await createOrder({
+        customer: state.customer,
+        fulfilment: state.fulfilment,
+        paymentMethod: state.paymentMethod,
+        slot: state.slot && { slotId: state.slot.slotId, date: state.slot.date },
+        paymentProofUrl,
+        promoCode: state.promoCode,
+        lines: toOrderLines(cartItems),
+      });
+
+      rememberOrder(order, cartItems);
+      rememberAddress(state.customer.address);
+      sendOrderEmails({
+        id: order.id,
+        name: state.customer.name,
+        email: state.customer.email,
+        phone: state.customer.phone,
+        payment_method: state.paymentMethod,
+      }).catch(console.error);
+
+      clearCart();
+      dispatch({ type: 'ORDER_PLACED', order });
+    } catch (err) {
+      console.error('Error placing order:', err);
+      if (
+        err instanceof OrderRequestError &&
+        (err.hint === 'slot_unavailable' || err.hint === 'lead_time')
+      ) {
+        dispatch({ type: 'SLOT_UNAVAILABLE' });
+      }
+      setError(
+        err instanceof OrderRequestError ? err.message : 'Failed to place order. Please try again.'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePayment = () => {
+    if (paymentMethodOption(state.paymentMethod).requiresProof) {
+      go({ type: 'START_PROOF', now: Date.now() });
+    } else {
+      placeOrder(null);
+    }
+  };
+
+  const renderStep = () => {
+    if (state.step === 'confirmation' && state.order) {
+      return (
+        <ConfirmationStep
+          order={state.order}
+          fulfilment={state.fulfilment}
+          slot={state.slot}
+          paymentMethod={state.paymentMethod}
+          onDone={() => {
+            dispatch({ type: 'RESET' });
+            navigate('/');
+          }}
+        />
+      );
+    }
+
+    if (!restored) {
+      return <Loader className="animate-spin text-amber-600 mx-auto" />;
+    }
+
+    if (cartItems.length === 0) {
+      return (
+        <div className="text-center py-8 text-gray-600">
+          <p className="mb-4">Your cart is empty.</p>
+          <Link to={{ pathname: '/', hash: 'menu' }} className="text-amber-700 hover:text-amber-800 font-medium">
+            Browse the menu
+          </Link>
+        </div>
+      );
+    }
+
+    switch (state.step) {
+      case 'details':
+        return (
+          <DetailsStep
+            cartItems={cartItems}
+            customer={state.customer}
+            onCancel={() => navigate('/')}
+            onSubmit={(customer) => go({ type: 'SUBMIT_DETAILS', customer })}
+          />
+        );
+      case 'fulfilment':
+        return (
+          <FulfilmentStep
+            fulfilment={state.fulfilment}
+            slot={state.slot}
+            leadTimeHours={cartLeadTimeHours(cartItems)}
+            isBookableDay={isBookableDay}
+            area={state.customer.address.area}
+            subtotal={priceCart(cartItems).subtotal}
+            busy={busy}
+            onBack={() => go({ type: 'BACK' })}
+            onSubmit={handleFulfilment}
+          />
+        );
+      case 'payment':
+        return (
+          <PaymentStep
+            cartItems={cartItems}
+            fulfilment={state.fulfilment}
+            area={state.customer.address.area}
+            date={state.slot?.date ?? null}
+            paymentMethod={state.paymentMethod}
+            promoCode={state.promoCode}
+            quote={quote}
+            busy={busy}
+            onSelectPayment={(paymentMethod) => go({ type: 'SELECT_PAYMENT', paymentMethod })}
+            onApplyPromo={(promoCode) => go({ type: 'APPLY_PROMO', promoCode })}
+            onBack={() => go({ type: 'BACK' })}
+            onSubmit={handlePayment}
+          />
+        );
+      case 'proof':
+        return (
+          <ProofStep
+            cartItems={cartItems}
+            quote={quote}
+            deadline={state.proofDeadline ?? Date.now()}
+            busy={busy}
+            onExpired={handleProofExpired}
+            onError={setError}
+            onBack={() => go({ type: 'BACK' })}
+            onSubmit={placeOrder}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  const shownError = error ?? (priced ? quoteError : null);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-amber-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white rounded-lg shadow-xl overflow-hidden">
+          <div className="bg-gradient-to-r from-amber-600 to-orange-600 px-6 py-6">
+            <h1 className="text-2xl font-bold text-white">{STEP_TITLES[state.step]}</h1>
+            <CheckoutProgress step={state.step} />
+          </div>
+
+          <div className="p-6 space-y-6">
+            {shownError && (
+              <div className="flex items-center gap-3 bg-red-50 border border-red-200 p-4 rounded-lg">
+                <AlertCircle className="text-red-500 w-5 h-5 flex-shrink-0" />
+                <p className="text-red-700">{shownError}</p>
+              </div>
+            )}
+
+            {renderStep()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const PROGRESS_STEPS: { step: CheckoutStep; label: string }[] = [
+  { step: 'details', label: 'Details' },
+  { step: 'fulfilment', label: 'Fulfilment' },
+  { step: 'payment', label: 'Payment' },
+  { step: 'proof', label: 'Proof' },
+  { step: 'confirmation', label: 'Done' },
+];
+
+function CheckoutProgress({ step }: { step: CheckoutStep }) {
+  const current = PROGRESS_STEPS.findIndex((item) => item.step === step);
+
+  return (
+    <ol className="flex gap-2 mt-3 text-xs font-medium">
+      {PROGRESS_STEPS.map((item, index) => (
+        <li
+          key={item.step}
+          className={`flex-1 border-t-4 pt-1 ${
+            index <= current ? 'border-white text-white' : 'border-white/30 text-amber-100/70'
+          }`}
+        >
+          {item.label}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,62 @@
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Heart, Loader } from 'lucide-react';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import ProductCard from '../components/ProductCard';
+import FloatingCartButton from '../components/FloatingCartButton';
+import { useCart } from '../hooks/useCart';
+import { useCatalog } from '../hooks/useCatalog';
+import { useFavourites } from '../hooks/useFavourites';
+import { isListed } from '../lib/availability';
+
+export default function Favourites() {
+  const { catalog, loading, error } = useCatalog();
+  const { addToCart } = useCart();
+  const { favouriteIds } = useFavourites();
+
+  // Most recently favourited first; retired products drop out quietly.
+  const products = favouriteIds.flatMap((id) => {
+    const product = catalog?.products.find((item) => item.id === id);
+    return product && isListed(product) ? [product] : [];
+  });
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Navbar />
+
+      <main className="pt-24 pb-16 max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link
+          to={{ pathname: '/', hash: 'menu' }}
+          className="inline-flex items-center gap-1 text-sm font-medium text-amber-700 hover:text-amber-800 mb-6"
+        >
+          <ArrowLeft size={16} />
+          Back to menu
+        </Link>
+
+        <h1 className="text-3xl font-bold text-amber-900 mb-6">Your favourites</h1>
+
+        {loading && <Loader className="animate-spin text-amber-600 mx-auto" />}
+        {error && <p className="text-center text-red-700">{error}</p>}
+
+        {catalog && products.length === 0 && (
+          <div className="text-center py-16 text-gray-600">
+            <Heart size={32} className="mx-auto text-amber-300 mb-3" />
+            <p>Tap the heart on any treat to keep it here.</p>
+            <p className="text-sm mt-1">Favourites are saved on this device.</p>
+          </div>
+        )}
+
+        {products.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {products.map((product) => (
+              <ProductCard key={product.id} product={product} onAddToCart={addToCart} />
+            ))}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+      <FloatingCartButton />
+    </div>
+  );
+}
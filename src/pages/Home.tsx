@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { ShoppingCart } from 'lucide-react';
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Hero from '../components/Hero';
 import FeaturedProducts from '../components/FeaturedProducts';
@@ -7,92 +7,30 @@ import MenuSection from '../components/MenuSection';
 import About from '../components/About';
 import Gallery from '../components/Contact';
 import Footer from '../components/Footer';
-import Cart from '../components/Cart';
-import Checkout from '../components/Checkout';
-import Toast from '../components/Toast';
-import { Product, CartItem } from '../types';
+import FloatingCartButton from '../components/FloatingCartButton';
+import { useCart } from '../hooks/useCart';
 
 export default function Home() {
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [isCartOpen, setIsCartOpen] = useState(false);
-  const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
-  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const { hash } = useLocation();
+  const { addToCart, addCustomCake } = useCart();
 
-  const handleAddToCart = (product: Product) => {
-    setCartItems((prevItems) => {
-      const existingItem = prevItems.find((item) => item.id === product.id);
-      if (existingItem) {
-        return prevItems.map((item) =>
-          item.id === product.id ? { ...item, quantity: item.quantity + 1 } : item
-        );
-      } else {
-        return [...prevItems, { ...product, quantity: 1 }];
-      }
-    });
-    setToastMessage(`${product.name} added to cart!`);
-  };
-
-  const handleUpdateQuantity = (productId: string, newQuantity: number) => {
-    setCartItems((prevItems) =>
-      prevItems.map((item) => (item.id === productId ? { ...item, quantity: newQuantity } : item))
-    );
-  };
-
-  const handleRemoveItem = (productId: string) => {
-    setCartItems((prevItems) => prevItems.filter((item) => item.id !== productId));
-  };
-
-  const totalItemsInCart = cartItems.reduce((sum, item) => sum + item.quantity, 0);
+  // Navbar links from other pages land on /#menu and friends.
+  useEffect(() => {
+    if (hash) {
+      document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [hash]);
 
   return (
     <div className="min-h-screen bg-white">
-      <Navbar cartItemsCount={totalItemsInCart} onCartClick={() => setIsCartOpen(true)} />
+      <Navbar />
       <Hero />
-      <FeaturedProducts onAddToCart={handleAddToCart} />
-      <MenuSection onAddToCart={handleAddToCart} />
-      <Gallery onAddToCart={handleAddToCart} />
+      <FeaturedProducts onAddToCart={addToCart} />
+      <MenuSection onAddToCart={addToCart} />
+      <Gallery onAddCustomCake={addCustomCake} />
       <About />
       <Footer />
-      <Cart
-        isOpen={isCartOpen}
-        onClose={() => setIsCartOpen(false)}
-        cartItems={cartItems}
-        onUpdateQuantity={handleUpdateQuantity}
-        onRemoveItem={handleRemoveItem}
-        onCheckout={() => {
-          setIsCartOpen(false);
-          setIsCheckoutOpen(true);
-        }}
-      />
-
-      {isCheckoutOpen && (
-        <Checkout
-          cartItems={cartItems}
-          onClose={() => {
-            setIsCheckoutOpen(false);
-            setCartItems([]);
-          }}
-        />
-      )}
-
-      {toastMessage && (
-        <Toast
-          message={toastMessage}
-          onClose={() => setToastMessage(null)}
-        />
-      )}
-
-      {totalItemsInCart > 0 && (
-        <button
-          onClick={() => setIsCartOpen(true)}
-          className="fixed bottom-6 right-6 bg-amber-600 text-white p-4 rounded-full shadow-2xl hover:bg-amber-700 transition-all duration-200 transform hover:scale-110 z-40 md:hidden"
-        >
-          <ShoppingCart size={24} />
-          <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs font-bold rounded-full h-6 w-6 flex items-center justify-center">
-            {totalItemsInCart}
-          </span>
-        </button>
-      )}
+      <FloatingCartButton />
     </div>
   );
 }
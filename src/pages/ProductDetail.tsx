@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Check, Clock, Loader, Palette, Share2, ShoppingCart } from 'lucide-react';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import ProductCard from '../components/ProductCard';
+import VariantPicker from '../components/VariantPicker';
+import DietaryBadges from '../components/DietaryBadges';
+import ResponsiveImage from '../components/ResponsiveImage';
+import ProductReviews from '../components/ProductReviews';
+import CakeConfigurator from '../components/CakeConfigurator';
+import FloatingCartButton from '../components/FloatingCartButton';
+import FavouriteButton from '../components/FavouriteButton';
+import { useCart } from '../hooks/useCart';
+import { useCatalog } from '../hooks/useCatalog';
+import { CUSTOMISED_CATEGORY_ID } from '../services/catalogService';
+import { LOW_STOCK_THRESHOLD } from '../lib/capacity';
+import { formatAvailableDate, getAvailability, isListed } from '../lib/availability';
+import { ALLERGEN_LABELS } from '../lib/dietary';
+import { describeLeadTime } from '../lib/fulfilmentSlots';
+import { describePriceTier } from '../lib/pricing';
+import { Product } from '../types';
+
+const RELATED_LIMIT = 4;
+
+export default function ProductDetail() {
+  const { id } = useParams();
+  const { catalog, loading, error } = useCatalog();
+  const { addToCart } = useCart();
+
+  const product = catalog?.products.find((item) => item.id === id && isListed(item)) ?? null;
+  const related = product
+    ? (catalog?.products ?? [])
+        .filter(
+          (item) =>
+            item.categoryId === product.categoryId && item.id !== product.id && isListed(item)
+        )
+        .slice(0, RELATED_LIMIT)
+    : [];
+
+  useEffect(() => {
+    if (!product) return;
+    const previousTitle = document.title;
+    document.title = `${product.name} | Komugi`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [product]);
+
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, [id]);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Navbar />
+
+      <main className="pt-24 pb-16 max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link
+          to={{ pathname: '/', hash: 'menu' }}
+          className="inline-flex items-center gap-1 text-sm font-medium text-amber-700 hover:text-amber-800 mb-6"
+        >
+          <ArrowLeft size={16} />
+          Back to menu
+        </Link>
+
+        {loading && <Loader className="animate-spin text-amber-600 mx-auto" />}
+        {error && <p className="text-center text-red-700">{error}</p>}
+
+        {catalog && !product && (
+          <div className="text-center py-16">
+            <h1 className="text-2xl font-bold text-amber-900 mb-2">We couldn't find that treat</h1>
+            <p className="text-gray-600">It may have been retired from the menu.</p>
+          </div>
+        )}
+
+        {product && <ProductDetails key={product.id} product={product} products={catalog?.products ?? []} />}
+
+        {product && <ProductReviews product={product} />}
+
+        {related.length > 0 && (
+          <section className="mt-16">
+            <h2 className="text-2xl font-bold text-amber-900 mb-6">You might also like</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+              {related.map((item) => (
+                <ProductCard key={item.id} product={item} onAddToCart={addToCart} />
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      <Footer />
+      <FloatingCartButton />
+    </div>
+  );
+}
+
+function ProductDetails({ product, products }: { product: Product; products: Product[] }) {
+  const { addToCart, addCustomCake } = useCart();
+  const [selectedVariantId, setSelectedVariantId] = useState(product.variants[0]?.id ?? null);
+  const [imageIndex, setImageIndex] = useState(0);
+  const [configuring, setConfiguring] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const images = [product.image, ...product.details.gallery];
+  const selectedVariant =
+    product.variants.find((variant) => variant.id === selectedVariantId) ?? null;
+  const price = selectedVariant ? selectedVariant.price : product.price;
+  const isCustomised = product.categoryId === CUSTOMISED_CATEGORY_ID;
+  const { available, nextAvailableDate } = getAvailability(product);
+  const soldOut = product.remainingToday === 0;
+  const lowStock =
+    product.remainingToday !== null && !soldOut && product.remainingToday <= LOW_STOCK_THRESHOLD;
+  const leadTime = describeLeadTime(product.leadTimeHours);
+  const canAdd = available && !soldOut;
+
+  const handleShare = async () => {
+    const url = window.location.href;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: product.name, text: product.description, url });
+      } catch {
+        // Closing the share sheet rejects; nothing to do.
+      }
+      return;
+    }
+
+    await navigator.clipboard.writeText(url);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
+      <div>
+        <div className="aspect-square rounded-lg overflow-hidden bg-gradient-to-br from-amber-100 to-orange-100">
+          <ResponsiveImage
+            src={images[imageIndex]}
+            alt={product.name}
+            imageSet={product.imageSets[images[imageIndex]]}
+            sizes="(min-width: 768px) 50vw, 100vw"
+            eager
+            className={`w-full h-full object-cover ${canAdd ? '' : 'grayscale opacity-60'}`}
+          />
+        </div>
+        {images.length > 1 && (
+          <div className="flex gap-3 mt-4 overflow-x-auto">
+            {images.map((image, index) => (
+              <button
+                key={image}
+                onClick={() => setImageIndex(index)}
+                className={`w-20 h-20 flex-shrink-0 rounded-md overflow-hidden border-2 transition-colors duration-200 ${
+                  index === imageIndex ? 'border-amber-600' : 'border-transparent hover:border-amber-200'
+                }`}
+              >
+                <ResponsiveImage
+                  src={image}
+                  alt={`${product.name} ${index + 1}`}
+                  imageSet={product.imageSets[image]}
+                  sizes="80px"
+                  className="w-full h-full object-cover"
+                />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium uppercase tracking-wide text-amber-700 mb-2">
+          {product.category}
+        </p>
+        <h1 className="text-3xl font-bold text-gray-900 mb-3">{product.name}</h1>
+        <p className="text-2xl font-bold text-amber-700 mb-4">
+          {isCustomised && <span className="text-base font-medium text-gray-500">From </span>}
+          {price} PKR
+        </p>
+
+        {product.priceTiers.length > 0 && (
+          <ul className="text-sm font-medium text-green-700 mb-4">
+            {product.priceTiers.map((tier) => (
+              <li key={tier.minQuantity}>{describePriceTier(tier)}</li>
+            ))}
+          </ul>
+        )}
+
+        {!available && nextAvailableDate && (
+          <p className="text-sm font-medium text-amber-700 mb-4">
+            Coming back on {formatAvailableDate(nextAvailableDate)}
+          </p>
+        )}
+        {available && soldOut && (
+          <p className="text-sm font-medium text-gray-700 mb-4">Sold out today</p>
+        )}
+        {available && lowStock && (
+          <p className="text-sm font-medium text-red-600 mb-4">
+            Only {product.remainingToday} left today
+          </p>
+        )}
+        {leadTime && (
+          <p className="flex items-center gap-1 text-sm text-gray-600 mb-4">
+            <Clock size={16} className="text-amber-600" />
+            Made to order · {leadTime}
+          </p>
+        )}
+
+        <DietaryBadges details={product.details} className="mb-4" />
+
+        <p className="text-gray-700 mb-6 whitespace-pre-line">
+          {product.details.longDescription || product.description}
+        </p>
+
+        {product.variants.length > 0 && (
+          <div className="mb-6">
+            <VariantPicker
+              variants={product.variants}
+              selectedId={selectedVariantId}
+              onSelect={setSelectedVariantId}
+              size="md"
+            />
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3 mb-8">
+          {isCustomised ? (
+            <button
+              onClick={() => setConfiguring(true)}
+              disabled={!available}
+              className="bg-amber-600 text-white px-6 py-3 rounded-lg hover:bg-amber-700 transition-colors duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Palette size={20} />
+              <span>Customise</span>
+            </button>
+          ) : (
+            <button
+              onClick={() => addToCart(product, selectedVariant)}
+              disabled={!canAdd}
+              className="bg-amber-600 text-white px-6 py-3 rounded-lg hover:bg-amber-700 transition-colors duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ShoppingCart size={20} />
+              <span>Add to cart</span>
+            </button>
+          )}
+          <FavouriteButton product={product} className="self-center border border-amber-200" />
+          <button
+            onClick={handleShare}
+            className="border border-amber-300 text-amber-800 px-4 py-3 rounded-lg hover:bg-amber-50 transition-colors duration-200 flex items-center space-x-2"
+          >
+            {linkCopied ? <Check size={20} /> : <Share2 size={20} />}
+            <span>{linkCopied ? 'Link copied' : 'Share'}</span>
+          </button>
+        </div>
+
+        <dl className="space-y-4 text-sm">
+          {product.bundleItems.length > 0 && (
+            <div>
+              <dt className="font-semibold text-gray-900">What's in the box</dt>
+              <dd className="text-gray-700">
+                <ul>
+                  {product.bundleItems.map((item) => {
+                    const included = products.find((candidate) => candidate.id === item.productId);
+                    return (
+                      <li key={item.productId}>
+                        {item.quantity} ×{' '}
+                        {included && isListed(included) ? (
+                          <Link to={`/product/${included.id}`} className="text-amber-700 hover:text-amber-800">
+                            {included.name}
+                          </Link>
+                        ) : (
+                          included?.name ?? item.productId
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </dd>
+            </div>
+          )}
+          {product.details.servingSize && (
+            <div>
+              <dt className="font-semibold text-gray-900">Serving size</dt>
+              <dd className="text-gray-700">{product.details.servingSize}</dd>
+            </div>
+          )}
+          {product.details.ingredients && (
+            <div>
+              <dt className="font-semibold text-gray-900">Ingredients</dt>
+              <dd className="text-gray-700 whitespace-pre-line">{product.details.ingredients}</dd>
+            </div>
+          )}
+          {product.details.allergens.length > 0 && (
+            <div>
+              <dt className="font-semibold text-gray-900">Allergens</dt>
+              <dd className="text-gray-700">
+                Contains{' '}
+                {product.details.allergens
+                  .map((allergen) => ALLERGEN_LABELS[allergen].toLowerCase())
+                  .join(', ')}
+              </dd>
+            </div>
+          )}
+        </dl>
+      </div>
+
+      {configuring && (
+        <CakeConfigurator
+          product={product}
+          onAddToCart={addCustomCake}
+          onClose={() => setConfiguring(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertCircle, Loader, RotateCcw } from 'lucide-react';
+import CartLinesPreview from '../components/CartLinesPreview';
+import { useCart } from '../hooks/useCart';
+import { useCatalog } from '../hooks/useCatalog';
+import { fetchOrderLines } from '../services/orderService';
+import { StoredCartLine } from '../lib/cartStorage';
+import { readOrderHistory } from '../lib/orderHistory';
+
+const formatPlacedAt = (value: string) =>
+  new Date(value).toLocaleDateString('en-PK', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export default function Reorder() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const orderToken = searchParams.get('ref')?.trim() ?? '';
+  const { catalog, error: catalogError } = useCatalog();
+  const { addLines } = useCart();
+
+  const [history] = useState(readOrderHistory);
+  const [tokenInput, setTokenInput] = useState(orderToken);
+  const [lines, setLines] = useState<StoredCartLine[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [adding, setAdding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!orderToken) return;
+
+    setLoading(true);
+    setError(null);
+    fetchOrderLines(orderToken)
+      .then((data) => {
+        setLines(data);
+        if (data.length === 0) {
+          setError("We couldn't find an order with that ID.");
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading order:', err);
+        setError('Failed to load your order. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [orderToken]);
+
+  const addToCart = async (token: string, orderLines?: StoredCartLine[]) => {
+    setAdding(token);
+    setError(null);
+
+    try {
+      const linesToAdd = orderLines ?? (await fetchOrderLines(token));
+      if (linesToAdd.length === 0) {
+        setError("We couldn't find that order any more.");
+        return;
+      }
+      await addLines(linesToAdd);
+    } catch (err) {
+      console.error('Error repeating order:', err);
+      setError('Failed to add your order to the cart. Please try again.');
+    } finally {
+      setAdding(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-lg mx-auto bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Order again</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Fill your cart with a previous order. Today's prices apply, and anything no longer on the
+          menu is left out.
+        </p>
+
+        {catalogError && <p className="text-sm text-red-700 mb-4">{catalogError}</p>}
+
+        {error && (
+          <div className="flex items-center gap-2 bg-red-50 border border-red-200 p-3 rounded-md text-sm mb-4">
+            <AlertCircle className="text-red-500 w-4 h-4 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {orderToken ? (
+          <>
+            {(loading || !catalog) && <Loader className="animate-spin text-amber-600 mx-auto" />}
+
+            {catalog && lines && lines.length > 0 && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-500">
+                  Order <span className="font-mono">{orderToken}</span>
+                </p>
+                <CartLinesPreview lines={lines} catalog={catalog} />
+                <button
+                  onClick={() => addToCart(orderToken, lines)}
+                  disabled={adding !== null}
+                  className="w-full flex items-center justify-center gap-2 bg-amber-600 text-white py-2 rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+                >
+                  <RotateCcw size={16} />
+                  {adding === orderToken ? 'Adding…' : 'Add to cart'}
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSearchParams({ ref: tokenInput.trim() });
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              placeholder="Order ID from your confirmation"
+              required
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-amber-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              className="bg-amber-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-amber-700"
+            >
+              Find order
+            </button>
+          </form>
+        )}
+
+        {history.length > 0 && (
+          <section className="mt-8">
+            <h2 className="font-semibold text-gray-900 mb-3">Your recent orders</h2>
+            <ul className="space-y-3">
+              {history.map((past) => (
+                <li key={past.orderToken} className="border border-amber-100 rounded-lg p-4 text-sm">
+                  <div className="flex justify-between gap-3 mb-1">
+                    <span className="font-medium text-gray-900">{formatPlacedAt(past.placedAt)}</span>
+                    <span className="text-gray-700">{past.total} PKR</span>
+                  </div>
+                  <p className="text-gray-600 mb-3">{past.items.join(', ')}</p>
+                  <button
+                    onClick={() => addToCart(past.orderToken)}
+                    disabled={!catalog || adding !== null}
+                    className="flex items-center gap-1 text-amber-700 hover:text-amber-800 font-medium disabled:opacity-50"
+                  >
+                    <RotateCcw size={14} />
+                    {adding === past.orderToken ? 'Adding…' : 'Order again'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <Link to="/" className="block text-center text-sm text-amber-700 hover:text-amber-800 mt-8">
+          Back to the menu
+        </Link>
+      </div>
+    </div>
+  );
+}
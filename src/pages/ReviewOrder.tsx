@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertCircle, CheckCircle, Loader } from 'lucide-react';
+import { PostgrestError } from '@supabase/supabase-js';
+import StarRating from '../components/StarRating';
+import { fetchReviewableItems, submitReview } from '../services/reviewService';
+import { isReviewError, REVIEW_AUTHOR_MAX_LENGTH, REVIEW_BODY_MAX_LENGTH } from '../lib/reviews';
+import { ReviewableItem } from '../types';
+
+export default function ReviewOrder() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const orderToken = searchParams.get('ref')?.trim() ?? '';
+
+  const [tokenInput, setTokenInput] = useState(orderToken);
+  const [items, setItems] = useState<ReviewableItem[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!orderToken) return;
+
+    setLoading(true);
+    setError(null);
+    fetchReviewableItems(orderToken)
+      .then((data) => {
+        setItems(data);
+        if (data.length === 0) {
+          setError("We couldn't find a completed order with that ID.");
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading order:', err);
+        setError('Failed to load your order. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [orderToken]);
+
+  const markReviewed = (productId: string) => {
+    setItems((prev) =>
+      (prev ?? []).map((item) => (item.productId === productId ? { ...item, reviewed: true } : item))
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-lg mx-auto bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Review your order</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Tell us what you thought. Reviews appear on the menu once our team has checked them.
+        </p>
+
+        {!orderToken && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSearchParams({ ref: tokenInput.trim() });
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              placeholder="Order ID from your confirmation"
+              required
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-amber-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              className="bg-amber-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-amber-700"
+            >
+              Find order
+            </button>
+          </form>
+        )}
+
+        {loading && <Loader className="animate-spin text-amber-600 mx-auto" />}
+
+        {error && (
+          <div className="flex items-center gap-2 bg-red-50 border border-red-200 p-3 rounded-md text-sm mb-4">
+            <AlertCircle className="text-red-500 w-4 h-4 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {items?.map((item) => (
+            <ReviewForm
+              key={item.productId}
+              item={item}
+              orderToken={orderToken}
+              onSubmitted={() => markReviewed(item.productId)}
+            />
+          ))}
+        </div>
+
+        <Link to="/" className="block text-center text-sm text-amber-700 hover:text-amber-800 mt-8">
+          Back to the menu
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+interface ReviewFormProps {
+  item: ReviewableItem;
+  orderToken: string;
+  onSubmitted: () => void;
+}
+
+function ReviewForm({ item, orderToken, onSubmitted }: ReviewFormProps) {
+  const [rating, setRating] = useState(0);
+  const [authorName, setAuthorName] = useState('');
+  const [body, setBody] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (item.reviewed) {
+    return (
+      <div className="flex items-center gap-2 border border-green-200 bg-green-50 rounded-lg p-4 text-sm text-green-800">
+        <CheckCircle size={18} />
+        Thanks for reviewing {item.productName}!
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (rating === 0) {
+      setError('Please choose a star rating.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await submitReview({
+        orderToken,
+        productId: item.productId,
+        authorName: authorName.trim(),
+        rating,
+        body: body.trim(),
+      });
+      onSubmitted();
+    } catch (err) {
+      console.error('Error submitting review:', err);
+      setError(
+        isReviewError(err as PostgrestError)
+          ? (err as PostgrestError).message
+          : 'Failed to submit your review. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-amber-100 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-semibold text-gray-900">{item.productName}</h2>
+        <StarRating rating={rating} size={22} onChange={setRating} />
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <input
+        value={authorName}
+        onChange={(e) => setAuthorName(e.target.value)}
+        placeholder="Your name"
+        maxLength={REVIEW_AUTHOR_MAX_LENGTH}
+        required
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none"
+      />
+      <div>
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          maxLength={REVIEW_BODY_MAX_LENGTH}
+          rows={3}
+          placeholder="What did you think? (optional)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none focus:ring-2 focus:ring-amber-500 focus:outline-none"
+        />
+        <p className="text-xs text-gray-500 text-right">
+          {body.length}/{REVIEW_BODY_MAX_LENGTH}
+        </p>
+      </div>
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full bg-amber-600 text-white py-2 rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+      >
+        {submitting ? 'Submitting…' : 'Submit review'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AlertCircle, Loader, ShoppingCart } from 'lucide-react';
+import CartLinesPreview from '../components/CartLinesPreview';
+import { useCart } from '../hooks/useCart';
+import { useCatalog } from '../hooks/useCatalog';
+import { fetchCartShare } from '../services/cartShareService';
+import { StoredCartLine } from '../lib/cartStorage';
+
+export default function SharedCart() {
+  const { code = '' } = useParams();
+  const { catalog, error: catalogError } = useCatalog();
+  const { addLines } = useCart();
+
+  const [lines, setLines] = useState<StoredCartLine[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [added, setAdded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    fetchCartShare(code)
+      .then((data) => {
+        setLines(data);
+        if (!data || data.length === 0) {
+          setError('This cart link has expired or does not exist. Ask for a new one.');
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading shared cart:', err);
+        setError('Failed to load the shared cart. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [code]);
+
+  const handleAdd = async () => {
+    if (!lines) return;
+
+    setAdding(true);
+    setError(null);
+    try {
+      await addLines(lines);
+      setAdded(true);
+    } catch (err) {
+      console.error('Error adding shared cart:', err);
+      setError('Failed to add these items to your cart. Please try again.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-lg mx-auto bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Shared cart</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Someone shared their Komugi cart with you. Add it to your own cart to order it, or change
+          it first. Today's prices apply.
+        </p>
+
+        {catalogError && <p className="text-sm text-red-700 mb-4">{catalogError}</p>}
+
+        {error && (
+          <div className="flex items-center gap-2 bg-red-50 border border-red-200 p-3 rounded-md text-sm mb-4">
+            <AlertCircle className="text-red-500 w-4 h-4 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {(loading || !catalog) && !error && <Loader className="animate-spin text-amber-600 mx-auto" />}
+
+        {catalog && lines && lines.length > 0 && (
+          <div className="space-y-4">
+            <CartLinesPreview lines={lines} catalog={catalog} />
+            <button
+              onClick={handleAdd}
+              disabled={adding || added}
+              className="w-full flex items-center justify-center gap-2 bg-amber-600 text-white py-2 rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+            >
+              <ShoppingCart size={16} />
+              {added ? 'Added to your cart' : adding ? 'Adding…' : 'Add to my cart'}
+            </button>
+          </div>
+        )}
+
+        <Link to="/" className="block text-center text-sm text-amber-700 hover:text-amber-800 mt-8">
+          Back to the menu
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+// Mirrors is_admin() in the database: the role is set in app_metadata, which users cannot edit.
+export const isAdminSession = (session: Session | null) =>
+  session?.user.app_metadata.role === 'admin';
+
+export async function fetchSession(): Promise<Session | null> {
+  const { data, error } = await supabase.auth.getSession();
+
+  if (error) throw error;
+
+  return data.session;
+}
+
+export function onSessionChange(callback: (session: Session | null) => void) {
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session));
+  return () => data.subscription.unsubscribe();
+}
+
+export async function signIn(email: string, password: string) {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+  if (error) throw error;
+}
+
+export async function signOut() {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) throw error;
+}
@@ -0,0 +1,317 @@
+import { supabase } from '../lib/supabase';
+import { invalidateCatalog } from '../hooks/useCatalog';
+import { resizeImage } from '../lib/imagePipeline';
+import {
+  AdminProduct,
+  BundleItem,
+  PriceTier,
+  ProductAvailability,
+  ProductDetails,
+  ResponsiveImageSet,
+} from '../types';
+
+const PRODUCT_IMAGES_BUCKET = 'product-images';
+
+export interface CategoryInput {
+  id: string;
+  name: string;
+}
+
+export interface VariantInput {
+  id: string | null;
+  label: string;
+  price: number;
+  archived: boolean;
+}
+
+export interface ProductInput {
+  id: string;
+  categoryId: string;
+  name: string;
+  description: string;
+  price: number;
+  image: string;
+  isFeatured: boolean;
+  dailyCapacity: number | null;
+  leadTimeHours: number;
+  availability: ProductAvailability;
+  tags: string[];
+  details: ProductDetails;
+  imageSets: Record<string, ResponsiveImageSet>;
+  variants: VariantInput[];
+  priceTiers: PriceTier[];
+  bundleItems: BundleItem[];
+}
+
+const availabilityColumns = (availability: ProductAvailability) => ({
+  is_hidden: availability.hidden,
+  available_days: availability.days,
+  available_from: availability.from,
+  available_until: availability.until,
+  hide_when_unavailable: availability.hideWhenUnavailable,
+});
+
+// Only keep variants for photos the product still uses.
+const imageVariantsColumn = (input: ProductInput) =>
+  Object.fromEntries(
+    [input.image, ...input.details.gallery]
+      .filter((url) => input.imageSets[url])
+      .map((url) => [url, input.imageSets[url]])
+  );
+
+const priceTiersColumn = (tiers: PriceTier[]) =>
+  [...tiers]
+    .sort((a, b) => a.minQuantity - b.minQuantity)
+    .map((tier) => ({ min_quantity: tier.minQuantity, percent_off: tier.percentOff }));
+
+const detailColumns = (details: ProductDetails) => ({
+  long_description: details.longDescription,
+  ingredients: details.ingredients,
+  allergens: details.allergens,
+  dietary: details.dietary,
+  serving_size: details.servingSize,
+  gallery: details.gallery,
+});
+
+// Tags are lowercase and unique, e.g. "Matcha, eggless ,matcha" -> ['matcha', 'eggless'].
+export function parseTags(value: string) {
+  return [...new Set(value.split(',').map((tag) => slugify(tag)).filter(Boolean))];
+}
+
+export function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export async function createCategory(input: CategoryInput, sortOrder: number) {
+  const { error } = await supabase
+    .from('categories')
+    .insert([{ id: input.id, name: input.name, sort_order: sortOrder }]);
+
+  if (error) throw error;
+  invalidateCatalog();
+}
+
+export async function updateCategory(input: CategoryInput) {
+  const { error } = await supabase
+    .from('categories')
+    .update({ name: input.name })
+    .eq('id', input.id);
+
+  if (error) throw error;
+  invalidateCatalog();
+}
+
+export async function setCategoryArchived(id: string, archived: boolean) {
+  const { error } = await supabase
+    .from('categories')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', id);
+
+  if (error) throw error;
+  invalidateCatalog();
+}
+
+export async function createProduct(input: ProductInput, sortOrder: number) {
+  const { error } = await supabase.from('products').insert([
+    {
+      id: input.id,
+      category_id: input.categoryId,
+      name: input.name,
+      description: input.description,
+      price: input.price,
+      image: input.image,
+      is_featured: input.isFeatured,
+      daily_capacity: input.dailyCapacity,
+      lead_time_hours: input.leadTimeHours,
+      ...availabilityColumns(input.availability),
+      tags: input.tags,
+      ...detailColumns(input.details),
+      image_variants: imageVariantsColumn(input),
+      price_tiers: priceTiersColumn(input.priceTiers),
+      sort_order: sortOrder,
+    },
+  ]);
+
+  if (error) throw error;
+  await saveVariants(input.id, input.variants);
+  await saveBundleItems(input.id, input.bundleItems);
+  invalidateCatalog();
+}
+
+export async function updateProduct(input: ProductInput) {
+  const { error } = await supabase
+    .from('products')
+    .update({
+      category_id: input.categoryId,
+      name: input.name,
+      description: input.description,
+      price: input.price,
+      image: input.image,
+      is_featured: input.isFeatured,
+      daily_capacity: input.dailyCapacity,
+      lead_time_hours: input.leadTimeHours,
+      ...availabilityColumns(input.availability),
+      tags: input.tags,
+      ...detailColumns(input.details),
+      image_variants: imageVariantsColumn(input),
+      price_tiers: priceTiersColumn(input.priceTiers),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', input.id);
+
+  if (error) throw error;
+  await saveVariants(input.id, input.variants);
+  await saveBundleItems(input.id, input.bundleItems);
+  invalidateCatalog();
+}
+
+// How many customers have each product in their favourites; products nobody favourited are absent.
+export async function fetchFavouriteCounts(): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc('get_favourite_counts');
+  if (error) throw error;
+
+  return new Map(
+    (data as { product_id: string; favourites: number }[]).map((row) => [row.product_id, row.favourites])
+  );
+}
+
+export async function setProductPinned(id: string, pinned: boolean) {
+  const { error } = await supabase.from('products').update({ is_featured: pinned }).eq('id', id);
+
+  if (error) throw error;
+  invalidateCatalog();
+}
+
+// Variants are never deleted because order lines reference them; retired ones are archived.
+async function saveVariants(productId: string, variants: VariantInput[]) {
+  const rows = variants.map((variant, index) => ({
+    product_id: productId,
+    label: variant.label,
+    price: variant.price,
+    sort_order: index + 1,
+    archived_at: variant.archived ? new Date().toISOString() : null,
+  }));
+
+  const newRows = rows.filter((_row, index) => variants[index].id === null);
+  const results = await Promise.all([
+    ...(newRows.length > 0 ? [supabase.from('product_variants').insert(newRows)] : []),
+    ...variants.flatMap((variant, index) =>
+      variant.id === null
+        ? []
+        : [supabase.from('product_variants').update(rows[index]).eq('id', variant.id)]
+    ),
+  ]);
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+}
+
+// Bundle contents are only read by the product page and the capacity check, so they are replaced wholesale.
+async function saveBundleItems(productId: string, items: BundleItem[]) {
+  const { error: deleteError } = await supabase.from('bundle_items').delete().eq('bundle_id', productId);
+  if (deleteError) throw deleteError;
+
+  if (items.length === 0) return;
+
+  const { error } = await supabase.from('bundle_items').insert(
+    items.map((item, index) => ({
+      bundle_id: productId,
+      product_id: item.productId,
+      quantity: item.quantity,
+      sort_order: index + 1,
+    }))
+  );
+  if (error) throw error;
+}
+
+export async function setProductArchived(id: string, archived: boolean) {
+  const { error } = await supabase
+    .from('products')
+    .update({
+      archived_at: archived ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+
+  if (error) throw error;
+  invalidateCatalog();
+}
+
+// Persists the given order as sort_order 1..n for the listed rows.
+export async function reorderRows(table: 'categories' | 'products', orderedIds: string[]) {
+  const results = await Promise.all(
+    orderedIds.map((id, index) =>
+      supabase.from(table).update({ sort_order: index + 1 }).eq('id', id)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+  invalidateCatalog();
+}
+
+async function uploadToProductImages(path: string, file: Blob) {
+  const { error } = await supabase.storage.from(PRODUCT_IMAGES_BUCKET).upload(path, file);
+  if (error) throw error;
+
+  const { data } = supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(path);
+  return data.publicUrl;
+}
+
+export async function uploadProductImage(productId: string, file: File) {
+  const ext = file.name.split('.').pop() || 'jpg';
+  return uploadToProductImages(`${productId}-${Date.now()}.${ext}`, file);
+}
+
+// Resizes a photo in the browser and uploads the WebP/AVIF variants next to the original.
+export async function createImageSet(productId: string, source: Blob): Promise<ResponsiveImageSet> {
+  const { images, placeholder } = await resizeImage(source);
+  const stamp = Date.now();
+
+  const uploaded = await Promise.all(
+    images.map(async (image) => ({
+      format: image.format,
+      variant: {
+        width: image.width,
+        url: await uploadToProductImages(
+          `variants/${productId}-${stamp}-${image.width}.${image.format.split('/')[1]}`,
+          image.blob
+        ),
+      },
+    }))
+  );
+
+  const variantsOf = (format: string) =>
+    uploaded.filter((item) => item.format === format).map((item) => item.variant);
+
+  return { placeholder, webp: variantsOf('image/webp'), avif: variantsOf('image/avif') };
+}
+
+// Generates variants for any of the product's photos that do not have them yet,
+// e.g. the bundled photos in `public/` or uploads from before the image pipeline.
+export async function optimiseProductImages(product: AdminProduct) {
+  const missing = [product.image, ...product.details.gallery].filter(
+    (url) => url && !product.imageSets[url]
+  );
+  if (missing.length === 0) return 0;
+
+  const imageSets = { ...product.imageSets };
+  for (const url of missing) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    imageSets[url] = await createImageSet(product.id, await response.blob());
+  }
+
+  const { error } = await supabase
+    .from('products')
+    .update({ image_variants: imageSets })
+    .eq('id', product.id);
+
+  if (error) throw error;
+  invalidateCatalog();
+  return missing.length;
+}
@@ -0,0 +1,42 @@
+import { supabase } from '../lib/supabase';
+import { DELIVERY_ZONE_COLUMNS, DeliveryZoneRow, toDeliveryZone } from './deliveryZoneService';
+import { DeliveryZone } from '../types';
+
+export type DeliveryZoneInput = Omit<DeliveryZone, 'id' | 'archived'> & { id: string | null };
+
+// Every zone, including switched-off ones, cheapest first.
+export async function fetchAllDeliveryZones(): Promise<DeliveryZone[]> {
+  const { data, error } = await supabase
+    .from('delivery_zones')
+    .select(DELIVERY_ZONE_COLUMNS)
+    .order('fee', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data as DeliveryZoneRow[]).map(toDeliveryZone);
+}
+
+export async function saveDeliveryZone(input: DeliveryZoneInput) {
+  const columns = {
+    name: input.name.trim(),
+    areas: input.areas,
+    fee: input.fee,
+    min_order_total: input.minOrderTotal,
+  };
+
+  const { error } = input.id
+    ? await supabase.from('delivery_zones').update(columns).eq('id', input.id)
+    : await supabase.from('delivery_zones').insert([columns]);
+
+  if (error) throw error;
+}
+
+export async function setDeliveryZoneArchived(id: string, archived: boolean) {
+  const { error } = await supabase
+    .from('delivery_zones')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,108 @@
+import { supabase } from '../lib/supabase';
+import { Address, AdminOrder, CakeCustomization, Fulfilment } from '../types';
+
+interface OrderItemRow {
+  product_id: string | null;
+  product_name: string;
+  variant_label: string | null;
+  customization: CakeCustomization | null;
+  note: string;
+  price: number;
+  quantity: number;
+}
+
+interface OrderRow {
+  id: string;
+  order_token: string;
+  name: string;
+  email: string;
+  phone: string;
+  address: Address;
+  payment_method: string;
+  payment_status: string;
+  payment_proof_url: string | null;
+  delivery_fee: number | null;
+  discount: number;
+  total: number | null;
+  fulfilment: Fulfilment | null;
+  fulfilment_starts_at: string | null;
+  fulfilment_ends_at: string | null;
+  promo_codes: { code: string } | null;
+  delivery_zones: { name: string } | null;
+  created_at: string;
+  order_items: OrderItemRow[];
+}
+
+const ORDER_COLUMNS =
+  'id, order_token, name, email, phone, address, payment_method, payment_status, payment_proof_url, created_at, ' +
+  'delivery_fee, discount, total, fulfilment, fulfilment_starts_at, fulfilment_ends_at, ' +
+  'promo_codes(code), delivery_zones(name), ' +
+  'order_items(product_id, product_name, variant_label, customization, note, price, quantity)';
+
+// Orders the kitchen still has to hand over; expired and rejected orders are left out.
+const ACTIVE_PAYMENT_STATUSES = ['pending', 'pending_verification', 'confirmed', 'paid'];
+
+export async function fetchRecentOrders(limit = 50): Promise<AdminOrder[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data as unknown as OrderRow[]).map(toAdminOrder);
+}
+
+// Active pickups and deliveries booked from the start of today over the given number of days,
+// earliest first.
+export async function fetchKitchenSchedule(days: number): Promise<AdminOrder[]> {
+  const from = new Date();
+  from.setHours(0, 0, 0, 0);
+  const until = new Date(from);
+  until.setDate(until.getDate() + days);
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .in('payment_status', ACTIVE_PAYMENT_STATUSES)
+    .gte('fulfilment_starts_at', from.toISOString())
+    .lt('fulfilment_starts_at', until.toISOString())
+    .order('fulfilment_starts_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data as unknown as OrderRow[]).map(toAdminOrder);
+}
+
+function toAdminOrder(row: OrderRow): AdminOrder {
+  return {
+    id: row.id,
+    orderToken: row.order_token,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    address: row.address,
+    paymentMethod: row.payment_method,
+    paymentStatus: row.payment_status,
+    paymentProofUrl: row.payment_proof_url,
+    deliveryFee: row.delivery_fee ?? 0,
+    deliveryZone: row.delivery_zones?.name ?? null,
+    promoCode: row.promo_codes?.code ?? null,
+    discount: row.discount,
+    total: row.total,
+    fulfilment: row.fulfilment,
+    fulfilmentStartsAt: row.fulfilment_starts_at,
+    fulfilmentEndsAt: row.fulfilment_ends_at,
+    createdAt: row.created_at,
+    items: row.order_items.map((item) => ({
+      productId: item.product_id,
+      productName: item.product_name,
+      variantLabel: item.variant_label,
+      customization: item.customization,
+      note: item.note,
+      price: item.price,
+      quantity: item.quantity,
+    })),
+  };
+}
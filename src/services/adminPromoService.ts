@@ -0,0 +1,90 @@
+import { supabase } from '../lib/supabase';
+import { DiscountType, PromoCode } from '../types';
+
+interface PromoCodeRow {
+  id: string;
+  code: string;
+  description: string;
+  discount_type: DiscountType;
+  discount_value: number;
+  min_order_total: number;
+  product_ids: string[] | null;
+  category_ids: string[] | null;
+  starts_at: string | null;
+  expires_at: string | null;
+  usage_limit: number | null;
+  archived_at: string | null;
+}
+
+export type PromoCodeInput = Omit<PromoCode, 'id' | 'archived' | 'uses'> & { id: string | null };
+
+export const normaliseCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+export async function fetchPromoCodes(): Promise<PromoCode[]> {
+  const [codesResult, usageResult] = await Promise.all([
+    supabase
+      .from('promo_codes')
+      .select(
+        'id, code, description, discount_type, discount_value, min_order_total, product_ids, ' +
+          'category_ids, starts_at, expires_at, usage_limit, archived_at'
+      )
+      .order('created_at', { ascending: false }),
+    supabase.rpc('get_promo_code_usage'),
+  ]);
+
+  if (codesResult.error) throw codesResult.error;
+  if (usageResult.error) throw usageResult.error;
+
+  const uses = new Map(
+    (usageResult.data as { promo_code_id: string; uses: number }[]).map((row) => [
+      row.promo_code_id,
+      row.uses,
+    ])
+  );
+
+  return (codesResult.data as unknown as PromoCodeRow[]).map((row) => ({
+    id: row.id,
+    code: row.code,
+    description: row.description,
+    discountType: row.discount_type,
+    discountValue: row.discount_value,
+    minOrderTotal: row.min_order_total,
+    productIds: row.product_ids,
+    categoryIds: row.category_ids,
+    startsAt: row.starts_at,
+    expiresAt: row.expires_at,
+    usageLimit: row.usage_limit,
+    archived: row.archived_at !== null,
+    uses: uses.get(row.id) ?? 0,
+  }));
+}
+
+export async function savePromoCode(input: PromoCodeInput) {
+  const columns = {
+    code: normaliseCode(input.code),
+    description: input.description,
+    discount_type: input.discountType,
+    discount_value: input.discountValue,
+    min_order_total: input.minOrderTotal,
+    product_ids: input.productIds,
+    category_ids: input.categoryIds,
+    starts_at: input.startsAt,
+    expires_at: input.expiresAt,
+    usage_limit: input.usageLimit,
+  };
+
+  const { error } = input.id
+    ? await supabase.from('promo_codes').update(columns).eq('id', input.id)
+    : await supabase.from('promo_codes').insert([columns]);
+
+  if (error) throw error;
+}
+
+export async function setPromoCodeArchived(id: string, archived: boolean) {
+  const { error } = await supabase
+    .from('promo_codes')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,50 @@
+import { supabase } from '../lib/supabase';
+import { invalidateCatalog } from '../hooks/useCatalog';
+import { AdminReview, ReviewStatus } from '../types';
+
+interface AdminReviewRow {
+  id: string;
+  product_id: string;
+  author_name: string;
+  rating: number;
+  body: string;
+  status: ReviewStatus;
+  created_at: string;
+  products: { name: string } | null;
+  orders: { order_token: string } | null;
+}
+
+export async function fetchReviews(status: ReviewStatus): Promise<AdminReview[]> {
+  const { data, error } = await supabase
+    .from('reviews')
+    .select(
+      'id, product_id, author_name, rating, body, status, created_at, products(name), orders(order_token)'
+    )
+    .eq('status', status)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data as unknown as AdminReviewRow[]).map((row) => ({
+    id: row.id,
+    productId: row.product_id,
+    productName: row.products?.name ?? row.product_id,
+    orderToken: row.orders?.order_token ?? '',
+    authorName: row.author_name,
+    rating: row.rating,
+    body: row.body,
+    status: row.status,
+    createdAt: row.created_at,
+  }));
+}
+
+export async function setReviewStatus(id: string, status: ReviewStatus) {
+  const { error } = await supabase
+    .from('reviews')
+    .update({ status, moderated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+  // Published ratings feed the catalog averages.
+  invalidateCatalog();
+}
@@ -0,0 +1,98 @@
+import { supabase } from '../lib/supabase';
+import { Fulfilment, FulfilmentSlotDefinition, StoreHours } from '../types';
+
+interface StoreHoursRow {
+  weekday: number;
+  opens_at: string | null;
+  closes_at: string | null;
+}
+
+interface FulfilmentSlotRow {
+  id: string;
+  fulfilment: Fulfilment;
+  weekday: number;
+  starts_at: string;
+  ends_at: string;
+  capacity: number;
+  archived_at: string | null;
+}
+
+export type FulfilmentSlotInput = Omit<FulfilmentSlotDefinition, 'id' | 'archived'> & {
+  id: string | null;
+};
+
+// Postgres returns times as "HH:MM:SS"; the admin inputs work in "HH:MM".
+const toTimeInput = (value: string) => value.slice(0, 5);
+
+// One entry per weekday, Sunday first; days without a row are closed.
+export async function fetchStoreHours(): Promise<StoreHours[]> {
+  const { data, error } = await supabase.from('store_hours').select('weekday, opens_at, closes_at');
+  if (error) throw error;
+
+  const rows = new Map((data as StoreHoursRow[]).map((row) => [row.weekday, row]));
+
+  return [0, 1, 2, 3, 4, 5, 6].map((weekday) => {
+    const row = rows.get(weekday);
+    return {
+      weekday,
+      opensAt: row?.opens_at ? toTimeInput(row.opens_at) : null,
+      closesAt: row?.closes_at ? toTimeInput(row.closes_at) : null,
+    };
+  });
+}
+
+export async function saveStoreHours(hours: StoreHours[]) {
+  const { error } = await supabase.from('store_hours').upsert(
+    hours.map((day) => ({ weekday: day.weekday, opens_at: day.opensAt, closes_at: day.closesAt })),
+    { onConflict: 'weekday' }
+  );
+
+  if (error) throw error;
+}
+
+export async function fetchFulfilmentSlotDefinitions(): Promise<FulfilmentSlotDefinition[]> {
+  const { data, error } = await supabase
+    .from('fulfilment_slots')
+    .select('id, fulfilment, weekday, starts_at, ends_at, capacity, archived_at')
+    .order('fulfilment')
+    .order('weekday')
+    .order('starts_at');
+
+  if (error) throw error;
+
+  return (data as FulfilmentSlotRow[]).map((row) => ({
+    id: row.id,
+    fulfilment: row.fulfilment,
+    weekday: row.weekday,
+    startsAt: toTimeInput(row.starts_at),
+    endsAt: toTimeInput(row.ends_at),
+    capacity: row.capacity,
+    archived: row.archived_at !== null,
+  }));
+}
+
+export async function saveFulfilmentSlot(input: FulfilmentSlotInput) {
+  const columns = {
+    fulfilment: input.fulfilment,
+    weekday: input.weekday,
+    starts_at: input.startsAt,
+    ends_at: input.endsAt,
+    capacity: input.capacity,
+  };
+
+  const { error } = input.id
+    ? await supabase.from('fulfilment_slots').update(columns).eq('id', input.id)
+    : await supabase.from('fulfilment_slots').insert([columns]);
+
+  if (error) throw error;
+}
+
+// Slots are switched off rather than deleted so booked orders keep their reference.
+export async function setFulfilmentSlotArchived(id: string, archived: boolean) {
+  const { error } = await supabase
+    .from('fulfilment_slots')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,23 @@
+import { supabase } from '../lib/supabase';
+import { StoredCartLine, storedCartLines, toStoredCart } from '../lib/cartStorage';
+import { CartItem } from '../types';
+
+export const cartShareUrl = (code: string) => `${window.location.origin}/c/${code}`;
+
+// Stores a snapshot of the cart and returns the short code for its link.
+export async function createCartShare(cartItems: CartItem[]): Promise<string> {
+  const { data, error } = await supabase.rpc('create_cart_share', {
+    p_lines: toStoredCart(cartItems),
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Null when the link has expired or never existed.
+export async function fetchCartShare(code: string): Promise<StoredCartLine[] | null> {
+  const { data, error } = await supabase.rpc('get_cart_share', { p_code: code });
+
+  if (error) throw error;
+  return data === null ? null : storedCartLines(data);
+}
@@ -0,0 +1,268 @@
+import { supabase } from '../lib/supabase';
+import {
+  AdminCatalog,
+  AdminCategory,
+  AdminProduct,
+  AdminProductVariant,
+  Allergen,
+  Catalog,
+  DietaryLabel,
+  ProductRating,
+  ResponsiveImageSet,
+} from '../types';
+
+export const CUSTOMISED_CATEGORY_ID = 'customised';
+
+export interface CategoryRow {
+  id: string;
+  name: string;
+  sort_order: number;
+  archived_at: string | null;
+}
+
+export interface ProductVariantRow {
+  id: string;
+  label: string;
+  price: number;
+  sort_order: number;
+  archived_at: string | null;
+}
+
+export interface PriceTierRow {
+  min_quantity: number;
+  percent_off: number;
+}
+
+export interface BundleItemRow {
+  product_id: string;
+  quantity: number;
+  sort_order: number;
+}
+
+export interface ProductRow {
+  id: string;
+  category_id: string;
+  name: string;
+  description: string;
+  price: number;
+  image: string;
+  is_featured: boolean;
+  sort_order: number;
+  archived_at: string | null;
+  daily_capacity: number | null;
+  lead_time_hours: number;
+  is_hidden: boolean;
+  available_days: number[] | null;
+  available_from: string | null;
+  available_until: string | null;
+  hide_when_unavailable: boolean;
+  tags: string[];
+  long_description: string;
+  ingredients: string;
+  allergens: Allergen[];
+  dietary: DietaryLabel[];
+  serving_size: string;
+  gallery: string[];
+  image_variants: Record<string, ResponsiveImageSet>;
+  price_tiers: PriceTierRow[];
+  product_variants: ProductVariantRow[];
+  bundle_items: BundleItemRow[];
+}
+
+interface RemainingCapacityRow {
+  product_id: string;
+  remaining: number;
+}
+
+interface PopularityRow {
+  product_id: string;
+  units_sold: number;
+}
+
+interface RatingRow {
+  product_id: string;
+  average_rating: number | string;
+  review_count: number;
+}
+
+const CATEGORY_COLUMNS = 'id, name, sort_order, archived_at';
+const PRODUCT_COLUMNS =
+  'id, category_id, name, description, price, image, is_featured, sort_order, archived_at, daily_capacity, ' +
+  'lead_time_hours, is_hidden, available_days, available_from, available_until, hide_when_unavailable, tags, ' +
+  'long_description, ingredients, allergens, dietary, serving_size, gallery, image_variants, price_tiers, ' +
+  'product_variants(id, label, price, sort_order, archived_at), ' +
+  'bundle_items!bundle_items_bundle_id_fkey(product_id, quantity, sort_order)';
+
+const toCategory = (row: CategoryRow): AdminCategory => ({
+  id: row.id,
+  name: row.name,
+  sortOrder: row.sort_order,
+  archived: row.archived_at !== null,
+});
+
+const toVariant = (row: ProductVariantRow): AdminProductVariant => ({
+  id: row.id,
+  label: row.label,
+  price: row.price,
+  sortOrder: row.sort_order,
+  archived: row.archived_at !== null,
+});
+
+// Per-product figures computed by RPCs rather than stored on the row.
+interface ProductStats {
+  remaining: Map<string, number>;
+  popularity: Map<string, number>;
+  ratings: Map<string, ProductRating>;
+}
+
+const toProduct = (
+  row: ProductRow,
+  categories: Map<string, AdminCategory>,
+  { remaining, popularity, ratings }: ProductStats,
+  includeArchived: boolean
+): AdminProduct => ({
+  id: row.id,
+  name: row.name,
+  price: row.price,
+  description: row.description,
+  category: categories.get(row.category_id)?.name ?? '',
+  categoryId: row.category_id,
+  image: row.image,
+  isFeatured: row.is_featured,
+  sortOrder: row.sort_order,
+  archived: row.archived_at !== null,
+  variants: row.product_variants
+    .map(toVariant)
+    .filter((variant) => includeArchived || !variant.archived)
+    .sort((a, b) => a.sortOrder - b.sortOrder),
+  dailyCapacity: row.daily_capacity,
+  remainingToday: remaining.get(row.id) ?? null,
+  leadTimeHours: row.lead_time_hours,
+  availability: {
+    hidden: row.is_hidden,
+    days: row.available_days,
+    from: row.available_from,
+    until: row.available_until,
+    hideWhenUnavailable: row.hide_when_unavailable,
+  },
+  tags: row.tags,
+  unitsSold: popularity.get(row.id) ?? 0,
+  rating: ratings.get(row.id) ?? null,
+  details: {
+    longDescription: row.long_description,
+    ingredients: row.ingredients,
+    allergens: row.allergens,
+    dietary: row.dietary,
+    servingSize: row.serving_size,
+    gallery: row.gallery,
+  },
+  imageSets: row.image_variants,
+  priceTiers: row.price_tiers
+    .map((tier) => ({ minQuantity: tier.min_quantity, percentOff: tier.percent_off }))
+    .sort((a, b) => a.minQuantity - b.minQuantity),
+  bundleItems: [...row.bundle_items]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((item) => ({ productId: item.product_id, quantity: item.quantity })),
+});
+
+// Remaining units for every product with a daily capacity, today unless a bakery-local
+// "YYYY-MM-DD" date is given; uncapped products are absent.
+export async function fetchRemainingCapacity(date?: string): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc('get_remaining_capacity', date ? { p_date: date } : {});
+  if (error) throw error;
+
+  return new Map(
+    (data as RemainingCapacityRow[]).map((row) => [row.product_id, row.remaining])
+  );
+}
+
+// Product ids ranked by units sold over the configured featured window, best first.
+export async function fetchBestsellerIds(limit: number): Promise<string[]> {
+  const { data, error } = await supabase.rpc('get_bestsellers', { result_limit: limit });
+  if (error) throw error;
+
+  return (data as PopularityRow[]).map((row) => row.product_id);
+}
+
+async function fetchPopularity(): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc('get_product_popularity');
+  if (error) throw error;
+
+  return new Map((data as PopularityRow[]).map((row) => [row.product_id, row.units_sold]));
+}
+
+async function fetchRatings(): Promise<Map<string, ProductRating>> {
+  const { data, error } = await supabase.rpc('get_product_ratings');
+  if (error) throw error;
+
+  return new Map(
+    (data as RatingRow[]).map((row) => [
+      row.product_id,
+      { average: Number(row.average_rating), count: row.review_count },
+    ])
+  );
+}
+
+// A bundle needs as much notice as the slowest product inside it, as enforce_lead_time() in
+// the database checks. The admin catalog keeps the bundle's own value so it can be edited.
+const bundleLeadTime = (product: AdminProduct, leadTimes: Map<string, number>) =>
+  product.bundleItems.reduce(
+    (hours, item) => Math.max(hours, leadTimes.get(item.productId) ?? 0),
+    product.leadTimeHours
+  );
+
+async function loadCatalog(includeArchived: boolean): Promise<AdminCatalog> {
+  let categoriesQuery = supabase.from('categories').select(CATEGORY_COLUMNS).order('sort_order');
+  let productsQuery = supabase.from('products').select(PRODUCT_COLUMNS).order('sort_order');
+
+  if (!includeArchived) {
+    categoriesQuery = categoriesQuery.is('archived_at', null);
+    productsQuery = productsQuery.is('archived_at', null);
+  }
+
+  const [categoriesResult, productsResult, remaining, popularity, ratings] = await Promise.all([
+    categoriesQuery,
+    productsQuery,
+    fetchRemainingCapacity(),
+    fetchPopularity(),
+    fetchRatings(),
+  ]);
+
+  if (categoriesResult.error) throw categoriesResult.error;
+  if (productsResult.error) throw productsResult.error;
+
+  const categories = (categoriesResult.data as CategoryRow[]).map(toCategory);
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+
+  // Products are ordered by category position first, then by their own position.
+  const products = (productsResult.data as unknown as ProductRow[])
+    .filter((row) => categoriesById.has(row.category_id))
+    .sort(
+      (a, b) =>
+        categoriesById.get(a.category_id)!.sortOrder - categoriesById.get(b.category_id)!.sortOrder ||
+        a.sort_order - b.sort_order
+    )
+    .map((row) =>
+      toProduct(row, categoriesById, { remaining, popularity, ratings }, includeArchived)
+    );
+
+  if (includeArchived) return { categories, products };
+
+  // A bundle cannot be sold once something inside it has been archived.
+  const productIds = new Set(products.map((product) => product.id));
+  const leadTimes = new Map(products.map((product) => [product.id, product.leadTimeHours]));
+  return {
+    categories,
+    products: products
+      .filter((product) => product.bundleItems.every((item) => productIds.has(item.productId)))
+      .map((product) => ({ ...product, leadTimeHours: bundleLeadTime(product, leadTimes) })),
+  };
+}
+
+export async function fetchCatalog(): Promise<Catalog> {
+  return loadCatalog(false);
+}
+
+export async function fetchAdminCatalog(): Promise<AdminCatalog> {
+  return loadCatalog(true);
+}
@@ -0,0 +1,41 @@
+import { supabase } from '../lib/supabase';
+import { CakeOption, CakeOptionKind } from '../types';
+
+const CAKE_REFERENCES_BUCKET = 'cake-references';
+
+interface CakeOptionRow {
+  id: string;
+  kind: CakeOptionKind;
+  label: string;
+  price_delta: number;
+  swatch: string | null;
+}
+
+export async function fetchCakeOptions(): Promise<CakeOption[]> {
+  const { data, error } = await supabase
+    .from('cake_options')
+    .select('id, kind, label, price_delta, swatch')
+    .is('archived_at', null)
+    .order('sort_order');
+
+  if (error) throw error;
+
+  return (data as CakeOptionRow[]).map((row) => ({
+    id: row.id,
+    kind: row.kind,
+    label: row.label,
+    priceDelta: row.price_delta,
+    swatch: row.swatch,
+  }));
+}
+
+export async function uploadCakeReference(file: File) {
+  const ext = file.name.split('.').pop() || 'jpg';
+  const path = `reference-${Date.now()}.${ext}`;
+
+  const { error } = await supabase.storage.from(CAKE_REFERENCES_BUCKET).upload(path, file);
+  if (error) throw error;
+
+  const { data } = supabase.storage.from(CAKE_REFERENCES_BUCKET).getPublicUrl(path);
+  return data.publicUrl;
+}
@@ -0,0 +1,35 @@
+import { supabase } from '../lib/supabase';
+import { DeliveryZone } from '../types';
+
+export interface DeliveryZoneRow {
+  id: string;
+  name: string;
+  areas: string[];
+  fee: number;
+  min_order_total: number;
+  archived_at: string | null;
+}
+
+export const DELIVERY_ZONE_COLUMNS = 'id, name, areas, fee, min_order_total, archived_at';
+
+export const toDeliveryZone = (row: DeliveryZoneRow): DeliveryZone => ({
+  id: row.id,
+  name: row.name,
+  areas: row.areas,
+  fee: row.fee,
+  minOrderTotal: row.min_order_total,
+  archived: row.archived_at !== null,
+});
+
+// Zones we currently deliver to, cheapest first.
+export async function fetchDeliveryZones(): Promise<DeliveryZone[]> {
+  const { data, error } = await supabase
+    .from('delivery_zones')
+    .select(DELIVERY_ZONE_COLUMNS)
+    .is('archived_at', null)
+    .order('fee', { ascending: true });
+
+  if (error) throw error;
+
+  return (data as DeliveryZoneRow[]).map(toDeliveryZone);
+}
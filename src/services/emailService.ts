@@ -3,7 +3,6 @@ export async function sendOrderEmails(payload: {
   name: string;
   email: string;
   phone: string; // ✅ ADD THIS
-  address: string;
   payment_method: string;
 }) {
 
@@ -16,7 +15,7 @@ export async function sendOrderEmails(payload: {
   }
 
   const res = await fetch(
-    `${supabaseUrl}/functions/v1/send-order-emails`,
+    `${supabaseUrl}/functions/v1/send-order-email`,
     {
       method: 'POST',
       headers: {
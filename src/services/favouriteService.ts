@@ -0,0 +1,12 @@
+import { supabase } from '../lib/supabase';
+import { deviceId } from '../lib/favourites';
+
+export async function syncFavourite(productId: string, favourite: boolean) {
+  const { error } = await supabase.rpc('set_product_favourite', {
+    p_device_id: deviceId(),
+    p_product_id: productId,
+    p_favourite: favourite,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,33 @@
+import { supabase } from '../lib/supabase';
+import { Fulfilment, FulfilmentSlot } from '../types';
+
+interface FulfilmentSlotRow {
+  slot_id: string;
+  slot_date: string;
+  starts_at: string;
+  ends_at: string;
+  remaining: number;
+}
+
+// Pickup slots or delivery windows over the coming days, within store hours and starting no
+// sooner than the lead time, earliest first. Full slots are included with `remaining` 0.
+export async function fetchFulfilmentSlots(
+  fulfilment: Fulfilment,
+  days: number,
+  leadTimeHours: number
+): Promise<FulfilmentSlot[]> {
+  const { data, error } = await supabase.rpc('get_fulfilment_slots', {
+    p_fulfilment: fulfilment,
+    p_days: days,
+    p_lead_time_hours: leadTimeHours,
+  });
+  if (error) throw error;
+
+  return (data as FulfilmentSlotRow[]).map((row) => ({
+    slotId: row.slot_id,
+    date: row.slot_date,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    remaining: row.remaining,
+  }));
+}
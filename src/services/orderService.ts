@@ -0,0 +1,127 @@
+import { supabase } from '../lib/supabase';
+import { cartLineId, customCakeLineId } from '../lib/cart';
+import { StoredCartLine } from '../lib/cartStorage';
+import {
+  CakeCustomization,
+  CartItem,
+  CustomerDetails,
+  Fulfilment,
+  OrderLineRequest,
+  OrderQuote,
+  PaymentMethod,
+  PlacedOrder,
+} from '../types';
+
+export interface NewOrder {
+  customer: CustomerDetails;
+  fulfilment: Fulfilment;
+  paymentMethod: PaymentMethod;
+  slot: { slotId: string; date: string } | null;
+  paymentProofUrl: string | null;
+  promoCode: string | null;
+  lines: OrderLineRequest[];
+}
+
+interface OrderLineRow {
+  product_id: string;
+  variant_id: string | null;
+  customization: CakeCustomization | null;
+  note: string;
+  price: number;
+  quantity: number;
+}
+
+// Rejections the customer can act on, such as a sold-out product. The message is safe to show.
+export class OrderRequestError extends Error {
+  hint: string;
+
+  constructor(message: string, hint: string) {
+    super(message);
+    this.hint = hint;
+  }
+}
+
+export const toOrderLines = (cartItems: CartItem[]): OrderLineRequest[] =>
+  cartItems.map((item) => ({
+    productId: item.id,
+    variantId: item.variant?.id ?? null,
+    customization: item.customization && {
+      flavourId: item.customization.flavour.id,
+      sizeId: item.customization.size.id,
+      frostingId: item.customization.frosting.id,
+      inscription: item.customization.inscription,
+      referenceImageUrl: item.customization.referenceImageUrl,
+    },
+    note: item.note.trim(),
+    quantity: item.quantity,
+  }));
+
+async function callOrderFunction<T>(name: string, payload: unknown): Promise<T> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('Supabase env vars missing');
+  }
+
+  const res = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${anonKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const data = await res.json().catch(() => ({}));
+
+  if (!res.ok) {
+    if (data.hint) throw new OrderRequestError(data.error, data.hint);
+    throw new Error(data.error ?? `${name} failed with status ${res.status}`);
+  }
+
+  return data as T;
+}
+
+// Delivery quotes need the address's area, which decides the delivery zone and its charge.
+// `date` is the booked day, which the products must be on sale on.
+export const quoteOrder = (
+  lines: OrderLineRequest[],
+  fulfilment: Fulfilment,
+  promoCode: string | null = null,
+  area: string | null = null,
+  date: string | null = null
+) => callOrderFunction<OrderQuote>('quote-order', { lines, fulfilment, promoCode, area, date });
+
+export const createOrder = (order: NewOrder) =>
+  callOrderFunction<PlacedOrder>('create-order', order);
+
+// Uploads a payment screenshot and returns the URL stored on the order.
+export async function uploadPaymentProof(file: File, fulfilment: Fulfilment) {
+  const fileName = `${fulfilment}-${Date.now()}.jpg`;
+
+  const { error } = await supabase.storage.from('payment_proofs').upload(fileName, file);
+  if (error) throw error;
+
+  return supabase.storage.from('payment_proofs').getPublicUrl(fileName).data.publicUrl;
+}
+
+// The lines of a previous order in the shape the cart stores, ready to be restored against
+// today's catalog. Empty when the token does not match an order.
+export async function fetchOrderLines(orderToken: string): Promise<StoredCartLine[]> {
+  const { data, error } = await supabase.rpc('get_order_lines', { p_order_token: orderToken });
+
+  if (error) throw error;
+
+  return (data as OrderLineRow[]).map((row) => ({
+    lineId: row.customization
+      ? customCakeLineId(row.product_id)
+      : cartLineId(row.product_id, row.variant_id),
+    productId: row.product_id,
+    variantId: row.variant_id,
+    customization: row.customization,
+    note: row.note,
+    quantity: row.quantity,
+    price: row.price,
+  }));
+}
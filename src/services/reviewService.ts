@@ -0,0 +1,71 @@
+import { supabase } from '../lib/supabase';
+import { Review, ReviewableItem } from '../types';
+
+export interface ReviewInput {
+  orderToken: string;
+  productId: string;
+  authorName: string;
+  rating: number;
+  body: string;
+}
+
+interface ReviewRow {
+  id: string;
+  product_id: string;
+  author_name: string;
+  rating: number;
+  body: string;
+  created_at: string;
+}
+
+interface ReviewableItemRow {
+  product_id: string;
+  product_name: string;
+  reviewed: boolean;
+}
+
+export async function fetchProductReviews(productId: string): Promise<Review[]> {
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('id, product_id, author_name, rating, body, created_at')
+    .eq('product_id', productId)
+    .eq('status', 'published')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data as ReviewRow[]).map((row) => ({
+    id: row.id,
+    productId: row.product_id,
+    authorName: row.author_name,
+    rating: row.rating,
+    body: row.body,
+    createdAt: row.created_at,
+  }));
+}
+
+export async function fetchReviewableItems(orderToken: string): Promise<ReviewableItem[]> {
+  const { data, error } = await supabase.rpc('get_reviewable_items', {
+    p_order_token: orderToken,
+  });
+
+  if (error) throw error;
+
+  return (data as ReviewableItemRow[]).map((row) => ({
+    productId: row.product_id,
+    productName: row.product_name,
+    reviewed: row.reviewed,
+  }));
+}
+
+export async function submitReview(input: ReviewInput) {
+  const { error } = await supabase.rpc('submit_review', {
+    p_order_token: input.orderToken,
+    p_product_id: input.productId,
+    p_author_name: input.authorName,
+    p_rating: input.rating,
+    p_body: input.body,
+  });
+
+  if (error) throw error;
+}
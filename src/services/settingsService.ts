@@ -0,0 +1,23 @@
+import { supabase } from '../lib/supabase';
+
+export async function fetchSetting(key: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.value ?? null;
+}
+
+export async function saveSetting(key: string, value: string, description: string) {
+  const { error } = await supabase
+    .from('settings')
+    .upsert(
+      [{ key, value, description, updated_at: new Date().toISOString() }],
+      { onConflict: 'key' }
+    );
+
+  if (error) throw error;
+}
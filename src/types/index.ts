@@ -1,12 +1,313 @@
+export interface Category {
+  id: string;
+  name: string;
+  sortOrder: number;
+}
+
+export interface ProductVariant {
+  id: string;
+  label: string;
+  price: number;
+}
+
+export interface ProductAvailability {
+  hidden: boolean;
+  days: number[] | null;
+  from: string | null;
+  until: string | null;
+  hideWhenUnavailable: boolean;
+}
+
+export type Allergen = 'gluten' | 'eggs' | 'milk' | 'tree-nuts' | 'peanuts' | 'soy' | 'sesame';
+
+export type DietaryLabel = 'eggless' | 'vegetarian' | 'vegan' | 'gluten-free' | 'nut-free';
+
+export interface ProductDetails {
+  longDescription: string;
+  ingredients: string;
+  allergens: Allergen[];
+  dietary: DietaryLabel[];
+  servingSize: string;
+  gallery: string[];
+}
+
+export interface ImageVariant {
+  url: string;
+  width: number;
+}
+
+export interface ResponsiveImageSet {
+  placeholder: string;
+  webp: ImageVariant[];
+  avif: ImageVariant[];
+}
+
+export interface ProductRating {
+  average: number;
+  count: number;
+}
+
+// Percentage off every unit once the cart holds at least `minQuantity` of the product.
+export interface PriceTier {
+  minQuantity: number;
+  percentOff: number;
+}
+
+export interface BundleItem {
+  productId: string;
+  quantity: number;
+}
+
 export interface Product {
   id: string;
   name: string;
   price: number;
   description: string;
   category: string;
+  categoryId: string;
   image: string;
+  isFeatured: boolean;
+  variants: ProductVariant[];
+  dailyCapacity: number | null;
+  remainingToday: number | null;
+  // Notice the kitchen needs before the product can be collected or delivered.
+  leadTimeHours: number;
+  availability: ProductAvailability;
+  tags: string[];
+  unitsSold: number;
+  rating: ProductRating | null;
+  details: ProductDetails;
+  imageSets: Record<string, ResponsiveImageSet>;
+  priceTiers: PriceTier[];
+  // Empty unless the product is a bundle of other products.
+  bundleItems: BundleItem[];
+}
+
+export interface Catalog {
+  categories: Category[];
+  products: Product[];
+}
+
+export interface AdminCategory extends Category {
+  archived: boolean;
+}
+
+export interface AdminProductVariant extends ProductVariant {
+  sortOrder: number;
+  archived: boolean;
+}
+
+export interface AdminProduct extends Product {
+  sortOrder: number;
+  archived: boolean;
+  variants: AdminProductVariant[];
+}
+
+export interface AdminCatalog {
+  categories: AdminCategory[];
+  products: AdminProduct[];
+}
+
+export type CakeOptionKind = 'flavour' | 'size' | 'frosting';
+
+export interface CakeOption {
+  id: string;
+  kind: CakeOptionKind;
+  label: string;
+  priceDelta: number;
+  swatch: string | null;
+}
+
+export interface CakeCustomization {
+  flavour: CakeOption;
+  size: CakeOption;
+  frosting: CakeOption;
+  inscription: string;
+  referenceImageUrl: string | null;
 }
 
 export interface CartItem extends Product {
+  lineId: string;
+  quantity: number;
+  variant: ProductVariant | null;
+  customization: CakeCustomization | null;
+  note: string;
+}
+
+export type Fulfilment = 'pickup' | 'delivery';
+
+export type PaymentMethod = 'cash' | 'online';
+
+// A delivery address as captured at checkout and stored on the order. `location` is the
+// optional map pin. Orders placed before addresses were structured have it all in `street`.
+export interface Address {
+  house: string;
+  street: string;
+  area: string;
+  city: string;
+  landmark: string;
+  location: { lat: number; lng: number } | null;
+}
+
+export interface CustomerDetails {
+  name: string;
+  email: string;
+  phone: string;
+  address: Address;
+}
+
+// A pickup slot or delivery window on a given day, as offered at checkout. `date` is the
+// bakery-local day.
+export interface FulfilmentSlot {
+  slotId: string;
+  date: string;
+  startsAt: string;
+  endsAt: string;
+  remaining: number;
+}
+
+// What the storefront sends to the order functions: references only, never prices.
+export interface OrderLineRequest {
+  productId: string;
+  variantId: string | null;
+  customization: {
+    flavourId: string;
+    sizeId: string;
+    frostingId: string;
+    inscription: string;
+    referenceImageUrl: string | null;
+  } | null;
+  note: string;
   quantity: number;
 }
+
+// Server-side prices for a cart; `linePrices` follows the order of the submitted lines.
+export interface OrderQuote {
+  linePrices: number[];
+  subtotal: number;
+  deliveryFee: number;
+  deliveryZone: string | null;
+  promoCode: string | null;
+  discount: number;
+  total: number;
+}
+
+export interface PlacedOrder {
+  id: string;
+  orderToken: string;
+  total: number;
+}
+
+// An order placed on this device, kept so it can be repeated later.
+export interface PastOrder {
+  orderToken: string;
+  placedAt: string;
+  total: number;
+  items: string[];
+}
+
+export interface OrderLine {
+  productId: string | null;
+  productName: string;
+  variantLabel: string | null;
+  customization: CakeCustomization | null;
+  note: string;
+  price: number;
+  quantity: number;
+}
+
+export interface AdminOrder {
+  id: string;
+  orderToken: string;
+  name: string;
+  email: string;
+  phone: string;
+  address: Address;
+  paymentMethod: string;
+  paymentStatus: string;
+  paymentProofUrl: string | null;
+  deliveryFee: number;
+  deliveryZone: string | null;
+  promoCode: string | null;
+  discount: number;
+  // NULL for orders placed before totals were stored.
+  total: number | null;
+  // NULL for orders placed before fulfilments were stored.
+  fulfilment: Fulfilment | null;
+  fulfilmentStartsAt: string | null;
+  fulfilmentEndsAt: string | null;
+  createdAt: string;
+  items: OrderLine[];
+}
+
+// Opening hours for a day of the week (0 = Sunday); both NULL when the kitchen is closed.
+// Times are bakery-local "HH:MM".
+export interface StoreHours {
+  weekday: number;
+  opensAt: string | null;
+  closesAt: string | null;
+}
+
+// A weekly pickup slot or delivery window as the admin defines it.
+export interface FulfilmentSlotDefinition {
+  id: string;
+  fulfilment: Fulfilment;
+  weekday: number;
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  archived: boolean;
+}
+
+// An area of the city we deliver to. `areas` are the sectors and neighbourhoods that put an
+// address in the zone.
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  areas: string[];
+  fee: number;
+  minOrderTotal: number;
+  archived: boolean;
+}
+
+export type ReviewStatus = 'pending' | 'published' | 'rejected';
+
+export interface Review {
+  id: string;
+  productId: string;
+  authorName: string;
+  rating: number;
+  body: string;
+  createdAt: string;
+}
+
+export interface AdminReview extends Review {
+  productName: string;
+  orderToken: string;
+  status: ReviewStatus;
+}
+
+export interface ReviewableItem {
+  productId: string;
+  productName: string;
+  reviewed: boolean;
+}
+
+export type DiscountType = 'percent' | 'fixed';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string;
+  discountType: DiscountType;
+  discountValue: number;
+  minOrderTotal: number;
+  // NULL on both means the whole cart is discounted.
+  productIds: string[] | null;
+  categoryIds: string[] | null;
+  startsAt: string | null;
+  expiresAt: string | null;
+  usageLimit: number | null;
+  archived: boolean;
+  uses: number;
+}
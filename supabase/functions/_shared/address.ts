@@ -0,0 +1,69 @@
+import { OrderValidationError } from "./pricing.ts";
+
+// Mirrors src/lib/address.ts; edge functions cannot import from the app bundle.
+const ADDRESS_FIELD_MAX_LENGTH = 120;
+
+export interface Address {
+  house: string;
+  street: string;
+  area: string;
+  city: string;
+  landmark: string;
+  location: { lat: number; lng: number } | null;
+}
+
+const isText = (value: unknown): value is string =>
+  typeof value === "string" && value.length <= ADDRESS_FIELD_MAX_LENGTH;
+
+const isFilled = (value: unknown) => isText(value) && value.trim() !== "";
+
+const isLocation = (value: unknown): value is Address["location"] => {
+  if (value === null) return true;
+  const { lat, lng } = (value ?? {}) as { lat?: unknown; lng?: unknown };
+  return (
+    typeof lat === "number" && Math.abs(lat) <= 90 && typeof lng === "number" && Math.abs(lng) <= 180
+  );
+};
+
+// Checks an address from the storefront and returns it trimmed, ready to store on the order.
+export function parseAddress(value: unknown): Address {
+  const address = (value ?? {}) as Record<keyof Address, unknown>;
+
+  if (
+    !isFilled(address.house) ||
+    !isFilled(address.street) ||
+    !isFilled(address.area) ||
+    !isFilled(address.city)
+  ) {
+    throw new OrderValidationError("Please fill in your house, street, area and city.");
+  }
+  if (!isText(address.landmark ?? "")) {
+    throw new OrderValidationError(
+      `Landmarks can be at most ${ADDRESS_FIELD_MAX_LENGTH} characters.`
+    );
+  }
+  if (!isLocation(address.location ?? null)) {
+    throw new OrderValidationError("That map pin isn't valid. Please pin your location again.");
+  }
+
+  return {
+    house: (address.house as string).trim(),
+    street: (address.street as string).trim(),
+    area: (address.area as string).trim(),
+    city: (address.city as string).trim(),
+    landmark: ((address.landmark as string | undefined) ?? "").trim(),
+    location: (address.location as Address["location"] | undefined) ?? null,
+  };
+}
+
+// One line for emails, e.g. "House 16, Street 50, F-7/4, Islamabad (near Jinnah Super)".
+// Addresses stored before they were structured have everything in `street`.
+export function formatAddress(address: Address) {
+  const line = [address.house, address.street, address.area, address.city]
+    .filter((part) => part)
+    .join(", ");
+  return address.landmark ? `${line} (near ${address.landmark})` : line;
+}
+
+export const mapLink = ({ lat, lng }: { lat: number; lng: number }) =>
+  `https://www.google.com/maps?q=${lat},${lng}`;
@@ -0,0 +1,482 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { isPublicStorageUrl } from "./storage.ts";
+
+// Mirrors the storefront constants in src/services/catalogService.ts, src/lib/cart.ts and
+// src/lib/customCake.ts, and the zone matching in src/lib/deliveryZones.ts; edge functions
+// cannot import from the app bundle.
+const CUSTOMISED_CATEGORY_ID = "customised";
+const NOTE_MAX_LENGTH = 120;
+const INSCRIPTION_MAX_LENGTH = 40;
+const MAX_LINE_QUANTITY = 99;
+const CAKE_REFERENCES_BUCKET = "cake-references";
+
+export type Fulfilment = "pickup" | "delivery";
+
+export interface OrderLineRequest {
+  productId: string;
+  variantId: string | null;
+  customization: {
+    flavourId: string;
+    sizeId: string;
+    frostingId: string;
+    inscription: string;
+    referenceImageUrl: string | null;
+  } | null;
+  note: string;
+  quantity: number;
+}
+
+interface CakeOption {
+  id: string;
+  kind: "flavour" | "size" | "frosting";
+  label: string;
+  priceDelta: number;
+  swatch: string | null;
+}
+
+// Row shape for `order_items`; `customization` keeps the same shape the storefront stored before.
+export interface PricedLine {
+  product_id: string;
+  product_name: string;
+  variant_id: string | null;
+  variant_label: string | null;
+  customization: {
+    flavour: CakeOption;
+    size: CakeOption;
+    frosting: CakeOption;
+    inscription: string;
+    referenceImageUrl: string | null;
+  } | null;
+  note: string;
+  price: number;
+  // The unit price before any quantity tier, which is what the cart shows for the item.
+  base_price: number;
+  quantity: number;
+}
+
+export interface OrderQuote {
+  lines: PricedLine[];
+  subtotal: number;
+  deliveryFee: number;
+  deliveryZone: { id: string; name: string } | null;
+  promoCode: { id: string; code: string } | null;
+  discount: number;
+  total: number;
+}
+
+interface ProductRow {
+  id: string;
+  name: string;
+  price: number;
+  category_id: string;
+  archived_at: string | null;
+  is_hidden: boolean;
+  available_days: number[] | null;
+  available_from: string | null;
+  available_until: string | null;
+  price_tiers: { min_quantity: number; percent_off: number }[];
+  product_variants: { id: string; label: string; price: number; archived_at: string | null }[];
+  bundle_items: { products: { archived_at: string | null } | null }[];
+}
+
+interface PromoCodeRow {
+  id: string;
+  code: string;
+  discount_type: "percent" | "fixed";
+  discount_value: number;
+  min_order_total: number;
+  product_ids: string[] | null;
+  category_ids: string[] | null;
+  starts_at: string | null;
+  expires_at: string | null;
+  usage_limit: number | null;
+}
+
+interface DeliveryZoneRow {
+  id: string;
+  name: string;
+  areas: string[];
+  fee: number;
+  min_order_total: number;
+}
+
+interface CakeOptionRow {
+  id: string;
+  kind: CakeOption["kind"];
+  label: string;
+  price_delta: number;
+  swatch: string | null;
+}
+
+// Raised for requests the customer can fix; the message is safe to show them.
+export class OrderValidationError extends Error {
+  hint: string;
+
+  constructor(message: string, hint = "order_invalid") {
+    super(message);
+    this.hint = hint;
+  }
+}
+
+const isFulfilment = (value: unknown): value is Fulfilment =>
+  value === "pickup" || value === "delivery";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Bakery-local day, matching order_production_date() in the database.
+const bakeryToday = () =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Karachi" }).format(new Date());
+
+// The booked "YYYY-MM-DD" day, as checked by enforce_fulfilment_slot(), or today for
+// requests without one.
+const orderDay = (fulfilmentDate: unknown) => {
+  const booked = typeof fulfilmentDate === "string" && DATE_PATTERN.test(fulfilmentDate);
+  const key = booked ? fulfilmentDate : bakeryToday();
+  return { key, weekday: new Date(`${key}T00:00:00Z`).getUTCDay(), booked };
+};
+
+const isAvailableOn = (product: ProductRow, day: { key: string; weekday: number }) => {
+  if (product.available_from && day.key < product.available_from) return false;
+  if (product.available_until && day.key > product.available_until) return false;
+  return !product.available_days || product.available_days.includes(day.weekday);
+};
+
+function validateCustomization(customization: unknown) {
+  const fields = customization as Record<string, unknown>;
+  if (
+    typeof customization !== "object" ||
+    customization === null ||
+    typeof fields.flavourId !== "string" ||
+    typeof fields.sizeId !== "string" ||
+    typeof fields.frostingId !== "string" ||
+    typeof fields.inscription !== "string"
+  ) {
+    throw new OrderValidationError("Some options for your custom cake are missing.");
+  }
+  if (fields.inscription.length > INSCRIPTION_MAX_LENGTH) {
+    throw new OrderValidationError(
+      `Cake messages can be at most ${INSCRIPTION_MAX_LENGTH} characters.`
+    );
+  }
+  // Reference images must be ones customers uploaded through the configurator.
+  if (
+    fields.referenceImageUrl !== null &&
+    !isPublicStorageUrl(CAKE_REFERENCES_BUCKET, fields.referenceImageUrl)
+  ) {
+    throw new OrderValidationError("Please upload your reference image again.");
+  }
+}
+
+function validateLines(lines: unknown): OrderLineRequest[] {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new OrderValidationError("Your cart is empty.");
+  }
+
+  for (const line of lines as OrderLineRequest[]) {
+    if (
+      typeof line?.productId !== "string" ||
+      (line.variantId !== null && typeof line.variantId !== "string")
+    ) {
+      throw new OrderValidationError("Your cart contains an unknown item.");
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > MAX_LINE_QUANTITY) {
+      throw new OrderValidationError(`Quantities must be between 1 and ${MAX_LINE_QUANTITY}.`);
+    }
+    if (typeof line.note !== "string" || line.note.length > NOTE_MAX_LENGTH) {
+      throw new OrderValidationError(`Item notes can be at most ${NOTE_MAX_LENGTH} characters.`);
+    }
+    if (line.customization !== null) {
+      validateCustomization(line.customization);
+    }
+  }
+
+  return lines as OrderLineRequest[];
+}
+
+// Mirrors src/lib/pricing.ts: the best tier reached by the product's units across all lines
+// comes off every unit, rounded to whole rupees.
+function applyPriceTiers(lines: PricedLine[], products: ProductRow[]): PricedLine[] {
+  const quantities = new Map<string, number>();
+  for (const line of lines) {
+    quantities.set(line.product_id, (quantities.get(line.product_id) ?? 0) + line.quantity);
+  }
+
+  return lines.map((line) => {
+    const tiers = products.find((product) => product.id === line.product_id)?.price_tiers ?? [];
+    const quantity = quantities.get(line.product_id) ?? 0;
+    const percentOff = tiers.reduce(
+      (best, tier) => (quantity >= tier.min_quantity && tier.percent_off > best ? tier.percent_off : best),
+      0
+    );
+    return { ...line, price: Math.round((line.price * (100 - percentOff)) / 100) };
+  });
+}
+
+const promoError = (message: string) => new OrderValidationError(message, "promo_invalid");
+
+// Works out the discount for a code against already priced lines. Only lines in the code's
+// product or category scope are discounted, and never the delivery charge.
+async function applyPromoCode(
+  supabase: SupabaseClient,
+  code: string,
+  lines: PricedLine[],
+  categoryOf: (productId: string) => string | undefined
+) {
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .select(
+      "id, code, discount_type, discount_value, min_order_total, product_ids, category_ids, " +
+        "starts_at, expires_at, usage_limit"
+    )
+    .eq("code", code.trim().toUpperCase())
+    .is("archived_at", null)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const promo = data as unknown as PromoCodeRow | null;
+  if (!promo) throw promoError("That promo code isn't valid.");
+
+  const now = new Date().toISOString();
+  if (promo.starts_at && now < promo.starts_at) throw promoError(`${promo.code} isn't active yet.`);
+  if (promo.expires_at && now >= promo.expires_at) throw promoError(`${promo.code} has expired.`);
+
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  if (subtotal < promo.min_order_total) {
+    throw promoError(`Spend at least ${promo.min_order_total} PKR to use ${promo.code}.`);
+  }
+
+  const isScoped = promo.product_ids !== null || promo.category_ids !== null;
+  const eligible = lines
+    .filter(
+      (line) =>
+        !isScoped ||
+        promo.product_ids?.includes(line.product_id) ||
+        promo.category_ids?.includes(categoryOf(line.product_id) ?? "")
+    )
+    .reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+  if (eligible === 0) throw promoError(`${promo.code} doesn't apply to anything in your cart.`);
+
+  // Checked again by the orders trigger, which also guards against concurrent checkouts.
+  if (promo.usage_limit !== null) {
+    const { data: uses, error: usageError } = await supabase.rpc("promo_code_usage", {
+      p_promo_code_id: promo.id,
+    });
+    if (usageError) throw usageError;
+    if (uses >= promo.usage_limit) {
+      throw promoError(`Promo code ${promo.code} has reached its usage limit.`);
+    }
+  }
+
+  const discount =
+    promo.discount_type === "percent"
+      ? Math.round((eligible * promo.discount_value) / 100)
+      : Math.min(promo.discount_value, eligible);
+
+  return { promoCode: { id: promo.id, code: promo.code }, discount };
+}
+
+const normaliseArea = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// The zone naming the longest area found as whole words in the customer's area, so
+// "DHA Phase 2" wins over a zone listing just "DHA", and "F-7" matches "F-7/4".
+function findDeliveryZone(zones: DeliveryZoneRow[], area: string) {
+  const haystack = ` ${normaliseArea(area)} `;
+  let best: { zone: DeliveryZoneRow; length: number } | null = null;
+
+  for (const zone of zones) {
+    for (const area of zone.areas) {
+      const needle = normaliseArea(area);
+      if (needle && haystack.includes(` ${needle} `) && needle.length > (best?.length ?? 0)) {
+        best = { zone, length: needle.length };
+      }
+    }
+  }
+
+  return best?.zone ?? null;
+}
+
+const deliveryError = (message: string) => new OrderValidationError(message, "delivery_unavailable");
+
+// Picks the delivery zone for the address's area and checks the cart meets its minimum.
+async function applyDeliveryZone(supabase: SupabaseClient, area: unknown, subtotal: number) {
+  if (typeof area !== "string" || area.trim() === "") {
+    throw deliveryError("Please enter the area or sector of your address.");
+  }
+
+  const { data, error } = await supabase
+    .from("delivery_zones")
+    .select("id, name, areas, fee, min_order_total")
+    .is("archived_at", null);
+
+  if (error) throw error;
+
+  const zone = findDeliveryZone((data ?? []) as DeliveryZoneRow[], area);
+  if (!zone) {
+    throw deliveryError(`Sorry, we don't deliver to ${area.trim()}. Please choose pickup instead.`);
+  }
+  if (subtotal < zone.min_order_total) {
+    throw deliveryError(
+      `Delivery to ${zone.name} needs an order of at least ${zone.min_order_total} PKR.`
+    );
+  }
+
+  return { deliveryZone: { id: zone.id, name: zone.name }, deliveryFee: zone.fee };
+}
+
+// Prices every line from the catalog. Client-supplied prices are never read. Products must be
+// on sale on the booked day, and delivery orders are charged the fee of the zone their
+// address's area falls in.
+export async function priceOrder(
+  supabase: SupabaseClient,
+  requestLines: unknown,
+  fulfilment: unknown,
+  promoCode: unknown = null,
+  deliveryArea: unknown = null,
+  fulfilmentDate: unknown = null
+): Promise<OrderQuote> {
+  if (!isFulfilment(fulfilment)) {
+    throw new OrderValidationError("Please choose pickup or delivery.");
+  }
+
+  const lines = validateLines(requestLines);
+  const day = orderDay(fulfilmentDate);
+  const productIds = [...new Set(lines.map((line) => line.productId))];
+  const hasCustomisedLines = lines.some((line) => line.customization !== null);
+
+  const [productsResult, optionsResult] = await Promise.all([
+    supabase
+      .from("products")
+      .select(
+        "id, name, price, category_id, archived_at, is_hidden, available_days, available_from, " +
+          "available_until, price_tiers, product_variants(id, label, price, archived_at), " +
+          "bundle_items!bundle_items_bundle_id_fkey(products!bundle_items_product_id_fkey(archived_at))"
+      )
+      .in("id", productIds),
+    hasCustomisedLines
+      ? supabase.from("cake_options").select("id, kind, label, price_delta, swatch").is("archived_at", null)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (productsResult.error) throw productsResult.error;
+  if (optionsResult.error) throw optionsResult.error;
+
+  const products = (productsResult.data ?? []) as unknown as ProductRow[];
+  const options: CakeOption[] = ((optionsResult.data ?? []) as CakeOptionRow[]).map((row) => ({
+    id: row.id,
+    kind: row.kind,
+    label: row.label,
+    priceDelta: row.price_delta,
+    swatch: row.swatch,
+  }));
+
+  const findOption = (id: string, kind: CakeOption["kind"]) =>
+    options.find((option) => option.id === id && option.kind === kind);
+
+  const basePriced = lines.map((line): PricedLine => {
+    const product = products.find((item) => item.id === line.productId);
+    if (!product || product.archived_at || product.is_hidden) {
+      throw new OrderValidationError(
+        "Some items in your cart are no longer on the menu. Please review your cart."
+      );
+    }
+    if (product.bundle_items.some((item) => !item.products || item.products.archived_at)) {
+      throw new OrderValidationError(`${product.name} is no longer available.`);
+    }
+    if (!isAvailableOn(product, day)) {
+      throw day.booked
+        ? new OrderValidationError(
+            `${product.name} is not available on that day. Please choose another time.`,
+            "slot_unavailable"
+          )
+        : new OrderValidationError(`${product.name} is not available today.`);
+    }
+
+    const variant = line.variantId
+      ? product.product_variants.find((item) => item.id === line.variantId && !item.archived_at)
+      : null;
+    if (line.variantId && !variant) {
+      throw new OrderValidationError(`That size of ${product.name} is no longer available.`);
+    }
+    if (
+      !line.variantId &&
+      !line.customization &&
+      product.product_variants.some((item) => !item.archived_at)
+    ) {
+      throw new OrderValidationError(`Please choose a size of ${product.name}.`);
+    }
+
+    if (line.customization) {
+      if (product.category_id !== CUSTOMISED_CATEGORY_ID) {
+        throw new OrderValidationError(`${product.name} cannot be customised.`);
+      }
+
+      const flavour = findOption(line.customization.flavourId, "flavour");
+      const size = findOption(line.customization.sizeId, "size");
+      const frosting = findOption(line.customization.frostingId, "frosting");
+      if (!flavour || !size || !frosting) {
+        throw new OrderValidationError(
+          `Some options for your custom ${product.name} are no longer available.`
+        );
+      }
+
+      const price = product.price + flavour.priceDelta + size.priceDelta + frosting.priceDelta;
+      return {
+        product_id: product.id,
+        product_name: product.name,
+        variant_id: null,
+        variant_label: null,
+        customization: {
+          flavour,
+          size,
+          frosting,
+          inscription: line.customization.inscription.trim(),
+          referenceImageUrl: line.customization.referenceImageUrl,
+        },
+        note: line.note.trim(),
+        price,
+        base_price: price,
+        quantity: line.quantity,
+      };
+    }
+
+    const price = variant ? variant.price : product.price;
+    return {
+      product_id: product.id,
+      product_name: product.name,
+      variant_id: variant?.id ?? null,
+      variant_label: variant?.label ?? null,
+      customization: null,
+      note: line.note.trim(),
+      price,
+      base_price: price,
+      quantity: line.quantity,
+    };
+  });
+
+  const priced = applyPriceTiers(basePriced, products);
+  const subtotal = priced.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const delivery =
+    fulfilment === "delivery"
+      ? await applyDeliveryZone(supabase, deliveryArea, subtotal)
+      : { deliveryZone: null, deliveryFee: 0 };
+  const promo =
+    typeof promoCode === "string" && promoCode.trim() !== ""
+      ? await applyPromoCode(
+          supabase,
+          promoCode,
+          priced,
+          (productId) => products.find((item) => item.id === productId)?.category_id
+        )
+      : { promoCode: null, discount: 0 };
+
+  return {
+    lines: priced,
+    subtotal,
+    ...delivery,
+    ...promo,
+    total: subtotal - promo.discount + delivery.deliveryFee,
+  };
+}
@@ -0,0 +1,6 @@
+// Whether a URL is a file in one of this project's public storage buckets, in the form
+// getPublicUrl returns, so orders never store or link to anything uploaded elsewhere.
+export const isPublicStorageUrl = (bucket: string, value: unknown): value is string =>
+  typeof value === "string" &&
+  value.startsWith(`${Deno.env.get("SUPABASE_URL")}/storage/v1/object/public/${bucket}/`) &&
+  !value.includes("..");
@@ -0,0 +1,175 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { parseAddress } from "../_shared/address.ts";
+import { OrderValidationError, priceOrder } from "../_shared/pricing.ts";
+import { isPublicStorageUrl } from "../_shared/storage.ts";
+
+// How long an online order waits for its payment proof, as on the checkout proof step.
+const PAYMENT_WINDOW_MINUTES = 10;
+
+// Mirrors uploadPaymentProof in src/services/orderService.ts.
+const PAYMENT_PROOFS_BUCKET = "payment_proofs";
+
+interface CreateOrderRequest {
+  customer: {
+    name: string;
+    email: string;
+    phone: string;
+    address: unknown;
+  };
+  fulfilment: unknown;
+  paymentMethod: unknown;
+  slot: { slotId: unknown; date: unknown } | null;
+  paymentProofUrl: string | null;
+  promoCode: unknown;
+  lines: unknown;
+}
+
+// Mirrors PAYMENT_METHODS in src/lib/checkoutConfig.ts: which fulfilments each method can be
+// used with, and whether the order waits for a payment proof.
+const PAYMENT_METHODS = new Map<unknown, { fulfilments: unknown[]; requiresProof: boolean }>([
+  ["cash", { fulfilments: ["pickup"], requiresProof: false }],
+  ["online", { fulfilments: ["pickup", "delivery"], requiresProof: true }],
+]);
+
+// Mirrors `slot` on FULFILMENT_OPTIONS in src/lib/checkoutConfig.ts. Whether the slot is open,
+// matches the fulfilment, is within store hours and not full is checked by the
+// enforce_fulfilment_slot trigger; lead times are checked by enforce_lead_time on the items.
+const SLOT_FULFILMENTS: unknown[] = ["pickup", "delivery"];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isFilled = (value: unknown) => typeof value === "string" && value.trim() !== "";
+
+function validateRequest({
+  customer,
+  fulfilment,
+  paymentMethod,
+  slot,
+  paymentProofUrl,
+}: CreateOrderRequest) {
+  if (
+    !isFilled(customer?.name) ||
+    !isFilled(customer?.email) ||
+    !isFilled(customer?.phone)
+  ) {
+    throw new OrderValidationError("Please fill in your name, email and phone.");
+  }
+  const address = parseAddress(customer.address);
+
+  const method = PAYMENT_METHODS.get(paymentMethod);
+  if (!method) {
+    throw new OrderValidationError("Please choose a payment method.");
+  }
+  if (!method.fulfilments.includes(fulfilment)) {
+    throw new OrderValidationError("That payment method is not available for this order.");
+  }
+  if (
+    SLOT_FULFILMENTS.includes(fulfilment) &&
+    !(
+      typeof slot?.slotId === "string" &&
+      UUID_PATTERN.test(slot.slotId) &&
+      typeof slot.date === "string" &&
+      DATE_PATTERN.test(slot.date)
+    )
+  ) {
+    throw new OrderValidationError("Please choose a time.");
+  }
+  if (method.requiresProof && !isPublicStorageUrl(PAYMENT_PROOFS_BUCKET, paymentProofUrl)) {
+    throw new OrderValidationError("Please upload your payment proof.");
+  }
+  return { paymentMethod: method, address };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const request: CreateOrderRequest = await req.json();
+    const { paymentMethod, address } = validateRequest(request);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Database configuration missing" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const slot = SLOT_FULFILMENTS.includes(request.fulfilment) ? request.slot : null;
+    const quote = await priceOrder(
+      supabase,
+      request.lines,
+      request.fulfilment,
+      request.promoCode,
+      address.area,
+      slot?.date
+    );
+
+    const now = new Date();
+    const paymentExpiresAt = new Date(now.getTime() + PAYMENT_WINDOW_MINUTES * 60 * 1000);
+    const awaitsProof = paymentMethod.requiresProof;
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .insert({
+        name: request.customer.name.trim(),
+        email: request.customer.email.trim(),
+        phone: request.customer.phone.trim(),
+        address,
+        payment_method: request.paymentMethod,
+        payment_status: awaitsProof ? "pending_verification" : "confirmed",
+        payment_expires_at: paymentExpiresAt.toISOString(),
+        payment_proof_url: awaitsProof ? request.paymentProofUrl : null,
+        payment_proof_submitted_at: awaitsProof ? now.toISOString() : null,
+        fulfilment: request.fulfilment,
+        fulfilment_slot_id: slot?.slotId ?? null,
+        fulfilment_date: slot?.date ?? null,
+        subtotal: quote.subtotal,
+        delivery_fee: quote.deliveryFee,
+        delivery_zone_id: quote.deliveryZone?.id ?? null,
+        promo_code_id: quote.promoCode?.id ?? null,
+        discount: quote.discount,
+        total: quote.total,
+      })
+      .select("id, order_token")
+      .single();
+
+    if (orderError) {
+      if (orderError.hint === "promo_invalid" || orderError.hint === "slot_unavailable") {
+        return jsonResponse({ error: orderError.message, hint: orderError.hint }, 409);
+      }
+      throw orderError;
+    }
+
+    const { error: itemsError } = await supabase
+      .from("order_items")
+      .insert(quote.lines.map((line) => ({ ...line, order_id: order.id })));
+
+    if (itemsError) {
+      // The order row is useless without its lines, and would otherwise hold capacity.
+      await supabase.from("orders").delete().eq("id", order.id);
+
+      if (itemsError.hint === "capacity_exceeded" || itemsError.hint === "lead_time") {
+        return jsonResponse({ error: itemsError.message, hint: itemsError.hint }, 409);
+      }
+      throw itemsError;
+    }
+
+    return jsonResponse({ id: order.id, orderToken: order.order_token, total: quote.total });
+  } catch (error) {
+    if (error instanceof OrderValidationError) {
+      return jsonResponse({ error: error.message, hint: error.hint }, 400);
+    }
+
+    console.error("Error creating order:", error);
+    return jsonResponse({ error: "Failed to create order" }, 500);
+  }
+});
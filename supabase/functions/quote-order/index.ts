@@ -0,0 +1,45 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { OrderValidationError, priceOrder } from "../_shared/pricing.ts";
+
+// Prices a cart without placing it, so the payment pages show the same totals the order will get.
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { lines, fulfilment, promoCode, area, date } = await req.json();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Database configuration missing" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const quote = await priceOrder(supabase, lines, fulfilment, promoCode, area, date);
+
+    return jsonResponse({
+      linePrices: quote.lines.map((line) => line.price),
+      subtotal: quote.subtotal,
+      deliveryFee: quote.deliveryFee,
+      deliveryZone: quote.deliveryZone?.name ?? null,
+      promoCode: quote.promoCode?.code ?? null,
+      discount: quote.discount,
+      total: quote.total,
+    });
+  } catch (error) {
+    if (error instanceof OrderValidationError) {
+      return jsonResponse({ error: error.message, hint: error.hint }, 400);
+    }
+
+    console.error("Error quoting order:", error);
+    return jsonResponse({ error: "Failed to price order" }, 500);
+  }
+});
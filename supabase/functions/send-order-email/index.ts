@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { Address, formatAddress, mapLink } from "../_shared/address.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,22 +8,73 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+interface CakeCustomization {
+  flavour: { label: string };
+  size: { label: string };
+  frosting: { label: string };
+  inscription: string;
+  referenceImageUrl: string | null;
+}
+
 interface OrderItem {
-  id: string;
-  name: string;
+  product_name: string;
+  variant_label: string | null;
+  customization: CakeCustomization | null;
+  note: string;
   price: number;
   quantity: number;
+  products: { allergens: string[]; dietary: string[] } | null;
 }
 
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Mirrors src/lib/dietary.ts; the function cannot import from the app bundle.
+const ALLERGEN_LABELS: Record<string, string> = {
+  gluten: "Gluten",
+  eggs: "Eggs",
+  milk: "Milk",
+  "tree-nuts": "Tree nuts",
+  peanuts: "Peanuts",
+  soy: "Soy",
+  sesame: "Sesame",
+};
+
+const DIETARY_LABELS: Record<string, string> = {
+  eggless: "Eggless",
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  "gluten-free": "Gluten free",
+  "nut-free": "Nut free",
+};
+
+// Pickup and delivery windows are shown in the bakery's time zone, as on the storefront.
+const formatSlotWindow = (startsAt: string, endsAt: string) => {
+  const time = (value: string) =>
+    new Date(value).toLocaleTimeString("en-PK", {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone: "Asia/Karachi",
+    });
+  const day = new Date(startsAt).toLocaleDateString("en-PK", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    timeZone: "Asia/Karachi",
+  });
+  return `${day}, ${time(startsAt)} – ${time(endsAt)}`;
+};
+
 interface EmailRequest {
-  orderToken: string;
-  customerName: string;
-  customerEmail: string;
-  customerPhone: string;
-  deliveryAddress: string;
-  paymentMethod: string;
-  items: OrderItem[];
-  totalAmount: number;
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  payment_method: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -35,14 +87,11 @@ Deno.serve(async (req: Request) => {
 
   try {
     const {
-      orderToken,
-      customerName,
-      customerEmail,
-      customerPhone,
-      deliveryAddress,
-      paymentMethod,
-      items,
-      totalAmount,
+      id: orderId,
+      name: customerName,
+      email: customerEmail,
+      phone: customerPhone,
+      payment_method: paymentMethod,
     }: EmailRequest = await req.json();
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
@@ -77,7 +126,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    let resendApiKey = settingsData?.value || Deno.env.get("RESEND_API_KEY");
+    const resendApiKey = settingsData?.value || Deno.env.get("RESEND_API_KEY");
 
     if (!resendApiKey) {
       return new Response(
@@ -89,11 +138,85 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const [orderResult, itemsResult] = await Promise.all([
+      supabase
+        .from("orders")
+        .select(
+          "order_token, address, subtotal, delivery_fee, discount, total, fulfilment, fulfilment_starts_at, fulfilment_ends_at, promo_codes(code)"
+        )
+        .eq("id", orderId)
+        .maybeSingle(),
+      supabase
+        .from("order_items")
+        .select("product_name, variant_label, customization, note, price, quantity, products(allergens, dietary)")
+        .eq("order_id", orderId),
+    ]);
+
+    if (orderResult.error || itemsResult.error || !orderResult.data) {
+      console.error("Error fetching order:", orderResult.error ?? itemsResult.error);
+      return new Response(
+        JSON.stringify({ error: "Order not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const orderToken = orderResult.data.order_token;
+    // The email is requested by the storefront, so its origin is the site to link back to.
+    const siteUrl = Deno.env.get("SITE_URL") ?? req.headers.get("origin") ?? "";
+    const reviewUrl = `${siteUrl}/review?ref=${encodeURIComponent(orderToken)}`;
+    const reorderUrl = `${siteUrl}/reorder?ref=${encodeURIComponent(orderToken)}`;
+    const items: OrderItem[] = itemsResult.data ?? [];
+    // Orders placed before server-side pricing have no stored totals.
+    const subtotal =
+      orderResult.data.subtotal ?? items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const deliveryFee: number = orderResult.data.delivery_fee ?? 0;
+    const discount: number = orderResult.data.discount ?? 0;
+    const promoCode = (orderResult.data.promo_codes as { code: string } | null)?.code;
+    const totalAmount = orderResult.data.total ?? subtotal - discount + deliveryFee;
+    const slotWindow =
+      orderResult.data.fulfilment_starts_at && orderResult.data.fulfilment_ends_at
+        ? formatSlotWindow(orderResult.data.fulfilment_starts_at, orderResult.data.fulfilment_ends_at)
+        : null;
+    const slotLabel = orderResult.data.fulfilment === "delivery" ? "Delivery" : "Pickup";
+    // Read from the order rather than the request, so the email shows the address as stored.
+    const address = orderResult.data.address as Address;
+
+    const customizationHtml = (customization: CakeCustomization) => `
+      <div style="color: #6b7280; font-size: 12px; margin-top: 4px; line-height: 1.5;">
+        Flavour: ${customization.flavour.label}<br>
+        Size: ${customization.size.label}<br>
+        Frosting: ${customization.frosting.label}
+        ${customization.inscription ? `<br>Message: &ldquo;${escapeHtml(customization.inscription)}&rdquo;` : ""}
+        ${customization.referenceImageUrl ? `<br><a href="${escapeHtml(customization.referenceImageUrl)}" style="color: #b45309;">Reference image</a>` : ""}
+      </div>
+    `;
+
+    const dietaryHtml = ({ allergens, dietary }: { allergens: string[]; dietary: string[] }) =>
+      allergens.length + dietary.length === 0 ? "" : `
+      <div style="margin-top: 6px;">
+        ${dietary.map((label) => `<span style="display: inline-block; background-color: #ecfdf5; color: #065f46; font-size: 11px; padding: 2px 8px; border-radius: 9999px; margin: 0 4px 4px 0;">${DIETARY_LABELS[label] ?? label}</span>`).join("")}
+        ${allergens.map((allergen) => `<span style="display: inline-block; background-color: #fef2f2; color: #b91c1c; font-size: 11px; padding: 2px 8px; border-radius: 9999px; margin: 0 4px 4px 0;">Contains ${(ALLERGEN_LABELS[allergen] ?? allergen).toLowerCase()}</span>`).join("")}
+      </div>
+    `;
+
+    const orderAllergens = Object.keys(ALLERGEN_LABELS).filter((allergen) =>
+      items.some((item) => item.products?.allergens.includes(allergen))
+    );
+
     const itemsHtml = items
       .map(
         (item) => `
         <tr>
-          <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">${item.name}</td>
+          <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">
+            ${item.product_name}
+            ${item.variant_label ? `<div style="color: #6b7280; font-size: 12px; margin-top: 4px;">${item.variant_label}</div>` : ""}
+            ${item.customization ? customizationHtml(item.customization) : ""}
+            ${item.note ? `<div style="color: #92400e; font-size: 12px; margin-top: 4px; font-style: italic;">Note: ${escapeHtml(item.note)}</div>` : ""}
+            ${item.products ? dietaryHtml(item.products) : ""}
+          </td>
           <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: center;">${item.quantity}</td>
           <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">${item.price} PKR</td>
           <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: right; font-weight: 600;">${item.price * item.quantity} PKR</td>
@@ -127,6 +250,7 @@ Deno.serve(async (req: Request) => {
                 
                 <div style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px; margin: 20px 0; border-radius: 4px;">
                   <p style="margin: 0; color: #92400e; font-weight: 600;">Order ID: <span style="font-family: monospace; font-size: 16px;">${orderToken}</span></p>
+                  ${slotWindow ? `<p style="margin: 10px 0 0 0; color: #92400e; font-weight: 600;">${slotLabel}: ${slotWindow}</p>` : ""}
                 </div>
                 
                 <h2 style="color: #92400e; font-size: 20px; margin: 30px 0 15px 0; border-bottom: 2px solid #d97706; padding-bottom: 10px;">Order Details</h2>
@@ -144,12 +268,36 @@ Deno.serve(async (req: Request) => {
                     ${itemsHtml}
                   </tbody>
                   <tfoot>
+                    ${deliveryFee + discount > 0 ? `
+                    <tr>
+                      <td colspan="3" style="padding: 10px 15px; text-align: right; color: #6b7280;">Subtotal:</td>
+                      <td style="padding: 10px 15px; text-align: right; color: #374151;">${subtotal} PKR</td>
+                    </tr>
+                    ` : ""}
+                    ${discount > 0 ? `
+                    <tr>
+                      <td colspan="3" style="padding: 10px 15px; text-align: right; color: #6b7280;">Discount${promoCode ? ` (${promoCode})` : ""}:</td>
+                      <td style="padding: 10px 15px; text-align: right; color: #047857;">-${discount} PKR</td>
+                    </tr>
+                    ` : ""}
+                    ${deliveryFee > 0 ? `
+                    <tr>
+                      <td colspan="3" style="padding: 10px 15px; text-align: right; color: #6b7280;">Delivery Charge:</td>
+                      <td style="padding: 10px 15px; text-align: right; color: #374151;">${deliveryFee} PKR</td>
+                    </tr>
+                    ` : ""}
                     <tr style="background-color: #fffbeb;">
                       <td colspan="3" style="padding: 15px; text-align: right; font-weight: 700; color: #92400e; font-size: 16px;">Total Amount:</td>
                       <td style="padding: 15px; text-align: right; font-weight: 700; color: #b45309; font-size: 18px;">${totalAmount} PKR</td>
                     </tr>
                   </tfoot>
                 </table>
+                ${orderAllergens.length > 0 ? `
+                <div style="background-color: #fef2f2; border-left: 4px solid #dc2626; padding: 15px; margin: 20px 0; border-radius: 4px;">
+                  <p style="margin: 0; color: #991b1b; font-weight: 600;">Allergen information</p>
+                  <p style="margin: 10px 0 0 0; color: #7f1d1d; font-size: 14px;">This order contains ${orderAllergens.map((allergen) => ALLERGEN_LABELS[allergen].toLowerCase()).join(", ")}. If anyone you're ordering for has an allergy, please contact us before your order is prepared.</p>
+                </div>
+                ` : ""}
                 
                 <h2 style="color: #92400e; font-size: 20px; margin: 30px 0 15px 0; border-bottom: 2px solid #d97706; padding-bottom: 10px;">Delivery Information</h2>
                 
@@ -157,7 +305,8 @@ Deno.serve(async (req: Request) => {
                   <p style="margin: 5px 0; color: #374151;"><strong>Name:</strong> ${customerName}</p>
                   <p style="margin: 5px 0; color: #374151;"><strong>Email:</strong> ${customerEmail}</p>
                   <p style="margin: 5px 0; color: #374151;"><strong>Phone:</strong> ${customerPhone}</p>
-                  <p style="margin: 5px 0; color: #374151;"><strong>Delivery Address:</strong> ${deliveryAddress}</p>
+                  <p style="margin: 5px 0; color: #374151;"><strong>Delivery Address:</strong> ${escapeHtml(formatAddress(address))}</p>
+                  ${address.location ? `<p style="margin: 5px 0; color: #374151;"><strong>Map pin:</strong> <a href="${mapLink(address.location)}" style="color: #b45309;">Open in Google Maps</a></p>` : ""}
                   <p style="margin: 5px 0; color: #374151;"><strong>Payment Method:</strong> ${paymentMethod === "cash" ? "Cash on Delivery" : "Online Payment"}</p>
                 </div>
                 
@@ -173,6 +322,12 @@ Deno.serve(async (req: Request) => {
                 </div>
                 `}
                 
+                <div style="margin: 30px 0; text-align: center;">
+                  <p style="margin: 0 0 12px 0; color: #374151; font-size: 14px;">Enjoyed your treats? We'd love to hear what you thought.</p>
+                  <a href="${reviewUrl}" style="display: inline-block; background-color: #d97706; color: #ffffff; text-decoration: none; font-weight: 600; padding: 10px 20px; border-radius: 6px;">Leave a review</a>
+                  <p style="margin: 16px 0 0 0; color: #6b7280; font-size: 13px;">Want the same again? <a href="${reorderUrl}" style="color: #b45309;">Order again</a> with one click.</p>
+                </div>
+
                 <div style="margin: 30px 0; padding: 20px; background-color: #fffbeb; border-radius: 6px;">
                   <p style="margin: 0; color: #78350f; font-size: 14px; line-height: 1.6;">
                     If you have any questions about your order, feel free to reach out to us on WhatsApp at <strong>03368862917</strong> or reply to this email.
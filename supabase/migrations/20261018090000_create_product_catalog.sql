@@ -0,0 +1,94 @@
+/*
+  # Create product catalog tables
+
+  1. New Tables
+    - `categories`
+      - `id` (text, primary key) - Stable slug (e.g. 'cheesecake')
+      - `name` (text) - Display name
+      - `sort_order` (integer) - Position in the menu filter bar
+      - `created_at` (timestamptz) - When the category was created
+    - `products`
+      - `id` (text, primary key) - Stable product ID used by the cart and orders
+      - `category_id` (text) - References `categories.id`
+      - `name` (text) - Product name
+      - `description` (text) - Short description shown on cards
+      - `price` (integer) - Price in PKR
+      - `image` (text) - Absolute image path or URL
+      - `is_featured` (boolean) - Shown in the Featured Products section
+      - `sort_order` (integer) - Position within its category
+      - `created_at` (timestamptz) - When the product was created
+      - `updated_at` (timestamptz) - When the product was last updated
+
+  2. Security
+    - Enable RLS on both tables
+    - Add policies allowing anyone to read the catalog
+
+  3. Notes
+    - Seeds the items previously hardcoded in `MenuSection`, `FeaturedProducts`
+      and the Customised Cakes section. Featured items reuse their menu IDs so
+      the same cake always maps to a single cart line.
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS products (
+  id text PRIMARY KEY,
+  category_id text NOT NULL REFERENCES categories(id),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  price integer NOT NULL CHECK (price >= 0),
+  image text NOT NULL DEFAULT '',
+  is_featured boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS products_category_id_idx ON products(category_id);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read categories"
+  ON categories
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can read products"
+  ON products
+  FOR SELECT
+  USING (true);
+
+INSERT INTO categories (id, name, sort_order) VALUES
+  ('cheesecake', 'Cheesecake', 1),
+  ('chiffon-cake', 'Chiffon Cake', 2),
+  ('brownies', 'Brownies', 3),
+  ('whipped-cream-cake', 'Whipped Cream Cake', 4),
+  ('customised', 'Customised', 5)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO products (id, category_id, name, description, price, image, is_featured, sort_order) VALUES
+  ('cheese-1', 'cheesecake', 'Japanese Cheesecake - 6 inch', 'Light and fluffy Japanese-style cheesecake with a delicate texture', 1600, '/whatsapp_image_2025-12-27_at_11.21.35_pm.jpeg', true, 1),
+  ('cheese-2', 'cheesecake', 'New York Cheesecake - 6 inch', 'Classic creamy New York style cheesecake with perfect texture', 1700, '/whatsapp_image_2025-12-27_at_11.25.02_pm.jpeg', true, 2),
+  ('cheese-3', 'cheesecake', 'New York Cheesecake - 8 inch', 'Classic creamy New York style cheesecake', 3400, '/whatsapp_image_2025-12-27_at_11.25.02_pm.jpeg', false, 3),
+  ('cheese-4', 'cheesecake', 'Baked Cheesecake Sticks - 12 pcs', 'Bite-sized cheesecake portions, perfect for sharing', 1700, '/whatsapp_image_2025-12-27_at_11.26.33_pm.jpeg', true, 4),
+  ('cheese-5', 'cheesecake', 'Matcha Cheesecake', 'Japanese green tea cheesecake blend', 2200, '/whatsapp_image_2025-12-27_at_11.32.24_pm.jpeg', false, 5),
+  ('cheese-6', 'cheesecake', 'Strawberry Cheesecake', 'Fresh strawberry and creamy cheesecake', 2000, '/whatsapp_image_2025-12-27_at_11.32.48_pm.jpeg', false, 6),
+  ('chiffon-1', 'chiffon-cake', 'Vanilla Chiffon Cake', 'Light and airy vanilla chiffon cake', 1100, '/whatsapp_image_2025-12-27_at_11.30.02_pm.jpeg', false, 1),
+  ('chiffon-2', 'chiffon-cake', 'Chocolate Chiffon Cake', 'Light and airy chocolate chiffon cake with rich cocoa flavor', 1300, '/whatsapp_image_2025-12-27_at_11.321.481_pm.jpeg', true, 2),
+  ('chiffon-3', 'chiffon-cake', 'Matcha Chiffon Cake', 'Japanese green tea chiffon cake', 1500, '/whatsapp_image_2025-12-27_at_11.322.482_pm.jpeg', false, 3),
+  ('chiffon-4', 'chiffon-cake', 'Marble Chiffon Cake', 'Vanilla and chocolate swirled chiffon cake', 1300, '/whatsapp_image_2025-12-27_at_11.323.483_pm.jpeg', false, 4),
+  ('brownie-1', 'brownies', 'Chocolate Brownies - 16 pcs', 'Rich and fudgy chocolate brownies', 2100, '/whatsapp_image_2025-12-27_at_11.324.484_pm.jpeg', false, 1),
+  ('whipped-1', 'whipped-cream-cake', 'Vanilla Whipped Cream Cake', 'Soft vanilla cake with whipped cream frosting', 1400, '/whatsapp_image_2025-12-27_at_11.325.485_pm.jpeg', false, 1),
+  ('whipped-2', 'whipped-cream-cake', 'Chocolate Whipped Cream Cake', 'Soft chocolate cake with whipped cream frosting', 1600, '/whatsapp_image_2025-12-27_at_11.326.486_pm.jpeg', false, 2),
+  ('whipped-3', 'whipped-cream-cake', 'Matcha Whipped Cream Cake', 'Soft matcha cake with whipped cream frosting', 1800, '/whatsapp_image_2025-12-27_at_11.327.487_pm.jpeg', false, 3),
+  ('custom-1', 'customised', 'Mango Whipped Cream Cake', 'Fresh mango topped whipped cream cake with mint garnish', 2500, '/whatsapp_image_2025-12-27_at_11.52.26_pm.jpeg', false, 1),
+  ('custom-2', 'customised', 'Classic White Cake', 'Elegant white cake with beautiful piped frosting design', 2200, '/whatsapp_image_2025-12-27_at_11.52.25_pm_(2).jpeg', false, 2),
+  ('custom-3', 'customised', 'Colored Frosting Cupcakes', 'Assorted cupcakes with vibrant colored frosting', 1800, '/whatsapp_image_2025-12-27_at_11.52.25_pm_(1).jpeg', false, 3),
+  ('custom-4', 'customised', 'Character Cake', 'Fun and cute themed cake with detailed character design', 3200, '/whatsapp_image_2025-12-27_at_11.52.25_pm.jpeg', false, 4)
+ON CONFLICT (id) DO NOTHING;
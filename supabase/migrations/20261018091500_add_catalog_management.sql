@@ -0,0 +1,72 @@
+/*
+  # Catalog Management from the Admin Area
+
+  1. Changes
+    - Add `archived_at` column to `categories` and `products` so items can be
+      retired from the storefront without breaking references from old orders
+
+  2. New Storage Bucket
+    - `product-images` bucket for product photos uploaded from `/admin`
+
+  3. Security
+    - Add policies allowing the admin screen to insert and update categories
+      and products (mirrors the existing `settings` policies)
+    - Allow public read and upload access on the `product-images` bucket
+
+  4. Notes
+    - Archived rows stay readable so the admin can restore them; the storefront
+      filters on `archived_at IS NULL`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'categories' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE categories ADD COLUMN archived_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE products ADD COLUMN archived_at timestamptz;
+  END IF;
+END $$;
+
+CREATE POLICY "Anyone can insert categories"
+  ON categories
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update categories"
+  ON categories
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can insert products"
+  ON products
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update products"
+  ON products
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-images', 'product-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow public read access to product images"
+  ON storage.objects FOR SELECT
+  TO public
+  USING (bucket_id = 'product-images');
+
+CREATE POLICY "Allow anyone to upload product images"
+  ON storage.objects FOR INSERT
+  TO public
+  WITH CHECK (bucket_id = 'product-images');
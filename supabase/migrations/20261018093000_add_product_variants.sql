@@ -0,0 +1,95 @@
+/*
+  # Add Product Variants
+
+  1. New Tables
+    - `product_variants`
+      - `id` (uuid, primary key) - Unique identifier
+      - `product_id` (text) - References `products.id`
+      - `label` (text) - Variant name shown to customers (e.g. '8 inch', '12 pcs')
+      - `price` (integer) - Price in PKR for this variant
+      - `sort_order` (integer) - Position in the variant picker
+      - `archived_at` (timestamptz) - Set when the variant is retired
+      - `created_at` (timestamptz) - When the variant was created
+
+  2. Changes
+    - Add `product_id`, `variant_id` and `variant_label` columns to `order_items`
+      so each order line records exactly what was chosen
+
+  3. Security
+    - Enable RLS on `product_variants`
+    - Add policies allowing anyone to read variants and the admin screen to
+      insert and update them
+
+  4. Notes
+    - Merges the separate 6 inch / 8 inch New York Cheesecake products into a
+      single product with two variants; `cheese-3` is archived
+    - `variant_label` is copied onto order lines so old orders stay readable
+      after a variant is renamed or archived
+*/
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id text NOT NULL REFERENCES products(id),
+  label text NOT NULL,
+  price integer NOT NULL CHECK (price >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_variants_product_id_idx ON product_variants(product_id);
+
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read product variants"
+  ON product_variants
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert product variants"
+  ON product_variants
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update product variants"
+  ON product_variants
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'product_id'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN product_id text REFERENCES products(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN variant_id uuid REFERENCES product_variants(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'variant_label'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN variant_label text;
+  END IF;
+END $$;
+
+UPDATE products
+SET name = 'New York Cheesecake', updated_at = now()
+WHERE id = 'cheese-2';
+
+UPDATE products
+SET archived_at = now(), updated_at = now()
+WHERE id = 'cheese-3' AND archived_at IS NULL;
+
+INSERT INTO product_variants (product_id, label, price, sort_order)
+SELECT 'cheese-2', v.label, v.price, v.sort_order
+FROM (VALUES ('6 inch', 1700, 1), ('8 inch', 3400, 2)) AS v(label, price, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM product_variants WHERE product_id = 'cheese-2');
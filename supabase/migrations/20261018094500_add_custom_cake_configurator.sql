@@ -0,0 +1,89 @@
+/*
+  # Custom Cake Configurator
+
+  1. New Tables
+    - `cake_options`
+      - `id` (uuid, primary key) - Unique identifier
+      - `kind` (text) - Option group: 'flavour', 'size' or 'frosting'
+      - `label` (text) - Option name shown to customers
+      - `price_delta` (integer) - Amount in PKR added to the cake's base price
+      - `swatch` (text) - Optional CSS colour for frosting options
+      - `sort_order` (integer) - Position within its group
+      - `archived_at` (timestamptz) - Set when the option is retired
+      - `created_at` (timestamptz) - When the option was created
+
+  2. Changes
+    - Add `customization` jsonb column to `order_items` holding the chosen
+      options, inscription and reference image URL for customised cakes
+
+  3. New Storage Bucket
+    - `cake-references` bucket for reference images customers upload
+
+  4. Security
+    - Enable RLS on `cake_options` and allow anyone to read it
+    - Allow public read and upload access on the `cake-references` bucket
+
+  5. Notes
+    - Labels and prices are copied into `customization` so the order keeps
+      the configuration the customer saw even if options change later
+*/
+
+CREATE TABLE IF NOT EXISTS cake_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('flavour', 'size', 'frosting')),
+  label text NOT NULL,
+  price_delta integer NOT NULL DEFAULT 0 CHECK (price_delta >= 0),
+  swatch text,
+  sort_order integer NOT NULL DEFAULT 0,
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE cake_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read cake options"
+  ON cake_options
+  FOR SELECT
+  USING (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'customization'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN customization jsonb;
+  END IF;
+END $$;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('cake-references', 'cake-references', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow public read access to cake references"
+  ON storage.objects FOR SELECT
+  TO public
+  USING (bucket_id = 'cake-references');
+
+CREATE POLICY "Allow anyone to upload cake references"
+  ON storage.objects FOR INSERT
+  TO public
+  WITH CHECK (bucket_id = 'cake-references');
+
+INSERT INTO cake_options (kind, label, price_delta, swatch, sort_order)
+SELECT o.kind, o.label, o.price_delta, o.swatch, o.sort_order
+FROM (VALUES
+  ('flavour', 'Vanilla', 0, NULL, 1),
+  ('flavour', 'Chocolate', 200, NULL, 2),
+  ('flavour', 'Matcha', 400, NULL, 3),
+  ('flavour', 'Red Velvet', 300, NULL, 4),
+  ('size', '6 inch (serves 6-8)', 0, NULL, 1),
+  ('size', '8 inch (serves 10-12)', 1200, NULL, 2),
+  ('size', '2 tiers, 6 + 8 inch (serves 20)', 3500, NULL, 3),
+  ('frosting', 'Classic White', 0, '#ffffff', 1),
+  ('frosting', 'Blush Pink', 0, '#f9c6d0', 2),
+  ('frosting', 'Sky Blue', 0, '#bfdff6', 3),
+  ('frosting', 'Butter Yellow', 0, '#fbe7a1', 4),
+  ('frosting', 'Chocolate Ganache', 300, '#5b3a29', 5)
+) AS o(kind, label, price_delta, swatch, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM cake_options);
@@ -0,0 +1,113 @@
+/*
+  # Daily Production Capacity
+
+  1. Changes
+    - Add `daily_capacity` column to `products` (NULL means unlimited)
+
+  2. New Functions
+    - `order_production_date(timestamptz)` - Bakery-local day an order counts against
+    - `used_capacity(text, date)` - Units of a product held by pending and
+      confirmed orders on a given day
+    - `get_remaining_capacity(date)` - Remaining units per capped product, used
+      by the storefront to show "sold out" and "only N left"
+    - `enforce_daily_capacity()` trigger on `order_items` that rejects lines
+      exceeding the remaining capacity
+
+  3. Notes
+    - The trigger locks the product row so concurrent checkouts cannot both
+      take the last unit
+    - Rejections are raised with HINT 'capacity_exceeded' and a message that
+      is safe to show to customers
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'daily_capacity'
+  ) THEN
+    ALTER TABLE products ADD COLUMN daily_capacity integer CHECK (daily_capacity >= 0);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION order_production_date(created_at timestamptz)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (created_at AT TIME ZONE 'Asia/Karachi')::date;
+$$;
+
+-- Left VOLATILE so the trigger sees lines inserted earlier in the same statement.
+CREATE OR REPLACE FUNCTION used_capacity(p_product_id text, p_date date)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(oi.quantity), 0)::integer
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.product_id = p_product_id
+    AND o.payment_status IN ('pending', 'pending_verification', 'confirmed', 'paid')
+    AND order_production_date(o.created_at) = p_date;
+$$;
+
+CREATE OR REPLACE FUNCTION get_remaining_capacity(p_date date DEFAULT order_production_date(now()))
+RETURNS TABLE (product_id text, remaining integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, GREATEST(p.daily_capacity - used_capacity(p.id, p_date), 0)
+  FROM products p
+  WHERE p.daily_capacity IS NOT NULL AND p.archived_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_remaining_capacity(date) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_daily_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_date date;
+  v_remaining integer;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = NEW.product_id FOR UPDATE;
+
+  IF v_product.daily_capacity IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT order_production_date(created_at) INTO v_date FROM orders WHERE id = NEW.order_id;
+  v_remaining := v_product.daily_capacity - used_capacity(NEW.product_id, v_date);
+
+  IF NEW.quantity > v_remaining THEN
+    IF v_remaining <= 0 THEN
+      RAISE EXCEPTION '% is sold out for today.', v_product.name
+        USING HINT = 'capacity_exceeded';
+    END IF;
+
+    RAISE EXCEPTION 'Only % left of % for today.', v_remaining, v_product.name
+      USING HINT = 'capacity_exceeded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_items_enforce_daily_capacity ON order_items;
+
+CREATE TRIGGER order_items_enforce_daily_capacity
+  BEFORE INSERT ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_daily_capacity();
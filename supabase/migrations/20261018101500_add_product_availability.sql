@@ -0,0 +1,55 @@
+/*
+  # Product Availability Rules
+
+  1. Changes
+    - Add availability columns to `products`
+      - `is_hidden` (boolean) - Hidden from the storefront regardless of schedule
+      - `available_days` (smallint[]) - Days of week the item is sold
+        (0 = Sunday ... 6 = Saturday); NULL means every day
+      - `available_from` (date) - First day of the selling season; NULL means open
+      - `available_until` (date) - Last day of the selling season; NULL means open
+      - `hide_when_unavailable` (boolean) - Hide the item outside its schedule
+        instead of showing "coming back on <date>"
+
+  2. Notes
+    - Rules are evaluated on the storefront in the bakery's local day
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'is_hidden'
+  ) THEN
+    ALTER TABLE products ADD COLUMN is_hidden boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'available_days'
+  ) THEN
+    ALTER TABLE products ADD COLUMN available_days smallint[]
+      CHECK (available_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'available_from'
+  ) THEN
+    ALTER TABLE products ADD COLUMN available_from date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'available_until'
+  ) THEN
+    ALTER TABLE products ADD COLUMN available_until date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'hide_when_unavailable'
+  ) THEN
+    ALTER TABLE products ADD COLUMN hide_when_unavailable boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
@@ -0,0 +1,53 @@
+/*
+  # Product Tags and Popularity
+
+  1. Changes
+    - Add `tags` text[] column to `products` for menu filters such as
+      'matcha', 'chocolate' or 'eggless'
+
+  2. New Functions
+    - `get_product_popularity()` - Units sold per product across orders that
+      were not cancelled, used to sort the menu by popularity
+
+  3. Notes
+    - Tags are stored lowercase; the admin form normalises them on save
+    - Seeds the obvious flavour tags for the existing menu
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE products ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS products_tags_idx ON products USING gin(tags);
+
+CREATE OR REPLACE FUNCTION get_product_popularity()
+RETURNS TABLE (product_id text, units_sold integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT oi.product_id, SUM(oi.quantity)::integer
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.product_id IS NOT NULL
+    AND o.payment_status IN ('pending', 'pending_verification', 'confirmed', 'paid')
+  GROUP BY oi.product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_product_popularity() TO anon, authenticated;
+
+UPDATE products SET tags = ARRAY['matcha']
+WHERE id IN ('cheese-5', 'chiffon-3', 'whipped-3') AND tags = '{}';
+
+UPDATE products SET tags = ARRAY['chocolate']
+WHERE id IN ('chiffon-2', 'chiffon-4', 'brownie-1', 'whipped-2') AND tags = '{}';
+
+UPDATE products SET tags = ARRAY['fruit']
+WHERE id IN ('cheese-6', 'custom-1') AND tags = '{}';
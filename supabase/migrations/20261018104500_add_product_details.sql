@@ -0,0 +1,49 @@
+/*
+  # Product Detail Fields
+
+  1. Changes
+    - Add detail columns to `products` for the `/product/:id` page
+      - `long_description` (text) - Full description shown on the detail page
+      - `ingredients` (text) - Ingredient list as written by the bakers
+      - `allergens` (text[]) - Allergens the product contains
+      - `serving_size` (text) - e.g. 'Serves 6-8'
+      - `gallery` (text[]) - Additional photo URLs shown after `image`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'long_description'
+  ) THEN
+    ALTER TABLE products ADD COLUMN long_description text NOT NULL DEFAULT '';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'ingredients'
+  ) THEN
+    ALTER TABLE products ADD COLUMN ingredients text NOT NULL DEFAULT '';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'allergens'
+  ) THEN
+    ALTER TABLE products ADD COLUMN allergens text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'serving_size'
+  ) THEN
+    ALTER TABLE products ADD COLUMN serving_size text NOT NULL DEFAULT '';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'gallery'
+  ) THEN
+    ALTER TABLE products ADD COLUMN gallery text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
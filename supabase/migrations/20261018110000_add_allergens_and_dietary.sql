@@ -0,0 +1,43 @@
+/*
+  # Structured Allergens and Dietary Labels
+
+  1. Changes
+    - `products.allergens` is limited to a fixed vocabulary so the storefront,
+      checkout and confirmation email can show consistent warnings:
+      'gluten', 'eggs', 'milk', 'tree-nuts', 'peanuts', 'soy', 'sesame'
+    - Add `dietary` (text[]) to `products` with the vocabulary:
+      'eggless', 'vegetarian', 'vegan', 'gluten-free', 'nut-free'
+
+  2. Notes
+    - Free-text allergens entered before this migration are lowercased and
+      matched against the vocabulary ('nuts' maps to 'tree-nuts'); anything
+      else is dropped, so review products in the admin after deploying
+    - No allergen data is seeded; the bakers fill it in per product
+*/
+
+UPDATE products
+SET allergens = ARRAY(
+  SELECT DISTINCT CASE lower(trim(a)) WHEN 'nuts' THEN 'tree-nuts' ELSE lower(trim(a)) END
+  FROM unnest(allergens) AS a
+  WHERE CASE lower(trim(a)) WHEN 'nuts' THEN 'tree-nuts' ELSE lower(trim(a)) END
+    IN ('gluten', 'eggs', 'milk', 'tree-nuts', 'peanuts', 'soy', 'sesame')
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'products' AND constraint_name = 'products_allergens_check'
+  ) THEN
+    ALTER TABLE products ADD CONSTRAINT products_allergens_check
+      CHECK (allergens <@ ARRAY['gluten', 'eggs', 'milk', 'tree-nuts', 'peanuts', 'soy', 'sesame']);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'dietary'
+  ) THEN
+    ALTER TABLE products ADD COLUMN dietary text[] NOT NULL DEFAULT '{}'
+      CHECK (dietary <@ ARRAY['eggless', 'vegetarian', 'vegan', 'gluten-free', 'nut-free']);
+  END IF;
+END $$;
@@ -0,0 +1,48 @@
+/*
+  # Bestseller-driven Featured Products
+
+  1. New Functions
+    - `get_bestsellers(result_limit)` - Products ranked by units sold over the
+      last `featured_window_days` days (orders that were not cancelled)
+
+  2. Settings
+    - `featured_window_days` - Sales window for the homepage Featured Products,
+      defaults to 30
+
+  3. Notes
+    - `products.is_featured` now means "pinned": pinned products are shown
+      first, then the top sellers fill the remaining slots
+    - Archived products are excluded; the storefront still applies its own
+      availability rules
+*/
+
+INSERT INTO settings (key, value, description)
+VALUES ('featured_window_days', '30', 'Number of days of sales used to pick Featured Products')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_bestsellers(result_limit integer DEFAULT 8)
+RETURNS TABLE (product_id text, units_sold integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH window_days AS (
+    SELECT COALESCE(
+      (SELECT NULLIF(value, '')::integer FROM settings WHERE key = 'featured_window_days'),
+      30
+    ) AS days
+  )
+  SELECT oi.product_id, SUM(oi.quantity)::integer AS units_sold
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN products p ON p.id = oi.product_id
+  WHERE p.archived_at IS NULL
+    AND o.payment_status IN ('pending', 'pending_verification', 'confirmed', 'paid')
+    AND o.created_at >= now() - make_interval(days => (SELECT days FROM window_days))
+  GROUP BY oi.product_id
+  ORDER BY units_sold DESC, oi.product_id
+  LIMIT result_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_bestsellers(integer) TO anon, authenticated;
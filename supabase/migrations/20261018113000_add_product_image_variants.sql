@@ -0,0 +1,30 @@
+/*
+  # Responsive Product Images
+
+  1. Changes
+    - Add `image_variants` (jsonb) to `products`, keyed by the original image URL:
+      { "<url>": { "placeholder": "data:image/jpeg;base64,...",
+                   "webp": [{ "url": "...", "width": 320 }, ...],
+                   "avif": [...] } }
+      Covers both `image` and the `gallery` photos
+    - Normalise any bundled image path saved without a leading slash so it
+      resolves on nested routes such as `/product/:id`
+
+  2. Notes
+    - Variants are generated in the admin when a photo is uploaded, or with
+      "Optimise photos" for images that predate this migration
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'image_variants'
+  ) THEN
+    ALTER TABLE products ADD COLUMN image_variants jsonb NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+UPDATE products
+SET image = '/' || image
+WHERE image <> '' AND image !~ '^(/|https?://)';
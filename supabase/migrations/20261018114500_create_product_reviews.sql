@@ -0,0 +1,142 @@
+/*
+  # Product Reviews
+
+  1. New Tables
+    - `reviews`
+      - `id` (uuid, primary key)
+      - `product_id` (text) - References `products.id`
+      - `order_id` (uuid) - References `orders.id`; the order the product was bought in
+      - `author_name` (text) - Name shown with the review
+      - `rating` (smallint) - 1 to 5 stars
+      - `body` (text) - Short review, up to 500 characters
+      - `status` (text) - 'pending', 'published' or 'rejected'
+      - `created_at`, `moderated_at` (timestamptz)
+    - One review per product per order
+
+  2. New Functions
+    - `get_reviewable_items(order_token)` - Products in an order and whether
+      each one has been reviewed already
+    - `submit_review(order_token, product_id, author_name, rating, body)` -
+      Creates a pending review after checking the order contains the product
+    - `get_product_ratings()` - Average rating and count of published reviews
+
+  3. Security
+    - Enable RLS on `reviews`
+    - Reviews are read by the storefront and the admin screen, and moderated
+      from the admin screen (mirrors the `products` policies)
+    - There is no insert policy: reviews can only be created through
+      `submit_review`, which proves the customer holds the order token
+
+  4. Notes
+    - Orders count as completed once confirmed or paid; online orders whose
+      payment proof has not been verified yet cannot be reviewed
+    - Errors raised by `submit_review` carry the HINT 'review_not_allowed'
+*/
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id text NOT NULL REFERENCES products(id),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  author_name text NOT NULL,
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body text NOT NULL DEFAULT '' CHECK (char_length(body) <= 500),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'published', 'rejected')),
+  created_at timestamptz DEFAULT now(),
+  moderated_at timestamptz,
+  UNIQUE (order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS reviews_product_id_status_idx ON reviews(product_id, status);
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read reviews"
+  ON reviews
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can update reviews"
+  ON reviews
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION get_reviewable_items(p_order_token text)
+RETURNS TABLE (product_id text, product_name text, reviewed boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (oi.product_id)
+    oi.product_id,
+    p.name,
+    EXISTS (
+      SELECT 1 FROM reviews r WHERE r.order_id = o.id AND r.product_id = oi.product_id
+    )
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  JOIN products p ON p.id = oi.product_id
+  WHERE o.order_token = p_order_token
+    AND o.payment_status IN ('confirmed', 'paid')
+  ORDER BY oi.product_id;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_review(
+  p_order_token text,
+  p_product_id text,
+  p_author_name text,
+  p_rating integer,
+  p_body text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_review_id uuid;
+BEGIN
+  SELECT o.id INTO v_order_id
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  WHERE o.order_token = p_order_token
+    AND oi.product_id = p_product_id
+    AND o.payment_status IN ('confirmed', 'paid')
+  LIMIT 1;
+
+  IF v_order_id IS NULL THEN
+    RAISE EXCEPTION 'This order does not include that product'
+      USING HINT = 'review_not_allowed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM reviews WHERE order_id = v_order_id AND product_id = p_product_id) THEN
+    RAISE EXCEPTION 'You have already reviewed this product for this order'
+      USING HINT = 'review_not_allowed';
+  END IF;
+
+  INSERT INTO reviews (product_id, order_id, author_name, rating, body)
+  VALUES (p_product_id, v_order_id, trim(p_author_name), p_rating, trim(p_body))
+  RETURNING id INTO v_review_id;
+
+  RETURN v_review_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_product_ratings()
+RETURNS TABLE (product_id text, average_rating numeric, review_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT product_id, ROUND(AVG(rating), 1), COUNT(*)::integer
+  FROM reviews
+  WHERE status = 'published'
+  GROUP BY product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_reviewable_items(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_review(text, text, text, integer, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_product_ratings() TO anon, authenticated;
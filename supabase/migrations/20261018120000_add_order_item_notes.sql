@@ -0,0 +1,19 @@
+/*
+  # Per-line Order Notes
+
+  1. Changes
+    - Add `note` (text) to `order_items` for instructions attached to a single
+      cart line, e.g. 'Happy Birthday Ali' or 'less sweet'
+    - Notes are limited to 120 characters, matching the cart input
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'note'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN note text NOT NULL DEFAULT ''
+      CHECK (char_length(note) <= 120);
+  END IF;
+END $$;
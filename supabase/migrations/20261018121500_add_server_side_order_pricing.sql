@@ -0,0 +1,55 @@
+/*
+  # Server-side Order Pricing
+
+  1. Changes
+    - Add `subtotal`, `delivery_fee` and `total` (integer, PKR) to `orders`,
+      filled in by the `create-order` edge function from catalog prices
+
+  2. Security
+    - Drop the public insert policies on `orders` and `order_items`; orders
+      are now created only by the `create-order` edge function, which uses
+      the service role and prices every line itself
+
+  3. Notes
+    - Orders placed before this migration keep NULL totals; their line
+      prices in `order_items` are unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'subtotal'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN subtotal integer CHECK (subtotal >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_fee'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_fee integer CHECK (delivery_fee >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'total'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN total integer CHECK (total >= 0);
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Anyone can insert orders" ON orders;
+
+-- `order_items` was created outside the migrations, so its insert policy name is not known.
+DO $$
+DECLARE
+  v_policy record;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'order_items' AND cmd = 'INSERT'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON order_items', v_policy.policyname);
+  END LOOP;
+END $$;
@@ -0,0 +1,150 @@
+/*
+  # Promo Codes
+
+  1. New Tables
+    - `promo_codes`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - Upper-case code customers type at checkout
+      - `description` (text) - Internal note, e.g. "Eid 2026"
+      - `discount_type` (text) - 'percent' or 'fixed'
+      - `discount_value` (integer) - Percentage (1-100) or amount in PKR
+      - `min_order_total` (integer) - Minimum cart subtotal in PKR
+      - `product_ids` (text[]) - Products the discount applies to
+      - `category_ids` (text[]) - Categories the discount applies to
+      - `starts_at`, `expires_at` (timestamptz) - Optional validity window
+      - `usage_limit` (integer) - Maximum number of orders; NULL means unlimited
+      - `archived_at` (timestamptz) - Set when the code is switched off
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `promo_code_id` (uuid) and `discount` (integer, PKR) to `orders`
+
+  3. New Functions
+    - `promo_code_usage(promo_code_id)` - Orders holding the code
+    - `get_promo_code_usage()` - Usage of every code, for the admin screen
+    - `enforce_promo_usage_limit()` trigger on `orders` that rejects orders
+      once a code has reached its usage limit
+
+  4. Security
+    - Enable RLS on `promo_codes`; codes are managed from the admin screen
+      (mirrors the `products` policies)
+
+  5. Notes
+    - When both `product_ids` and `category_ids` are NULL the code applies to
+      the whole cart; otherwise only matching lines are discounted
+    - Discounts never apply to the delivery charge
+    - Usage counts the same order statuses as daily capacity, so expired or
+      rejected orders give their use back
+    - Rejections carry HINT 'promo_invalid' and a customer-facing message
+*/
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code <> '' AND code = upper(code)),
+  description text NOT NULL DEFAULT '',
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value integer NOT NULL CHECK (discount_value > 0),
+  min_order_total integer NOT NULL DEFAULT 0 CHECK (min_order_total >= 0),
+  product_ids text[],
+  category_ids text[],
+  starts_at timestamptz,
+  expires_at timestamptz,
+  usage_limit integer CHECK (usage_limit > 0),
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100)
+);
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read promo codes"
+  ON promo_codes
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert promo codes"
+  ON promo_codes
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update promo codes"
+  ON promo_codes
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'promo_code_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN promo_code_id uuid REFERENCES promo_codes(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN discount integer NOT NULL DEFAULT 0 CHECK (discount >= 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS orders_promo_code_id_idx ON orders(promo_code_id);
+
+CREATE OR REPLACE FUNCTION promo_code_usage(p_promo_code_id uuid)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer
+  FROM orders
+  WHERE promo_code_id = p_promo_code_id
+    AND payment_status IN ('pending', 'pending_verification', 'confirmed', 'paid');
+$$;
+
+CREATE OR REPLACE FUNCTION get_promo_code_usage()
+RETURNS TABLE (promo_code_id uuid, uses integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id, promo_code_usage(id) FROM promo_codes;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_promo_code_usage() TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_promo_usage_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo promo_codes%ROWTYPE;
+BEGIN
+  IF NEW.promo_code_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locked so two checkouts cannot both take the last use.
+  SELECT * INTO v_promo FROM promo_codes WHERE id = NEW.promo_code_id FOR UPDATE;
+
+  IF v_promo.usage_limit IS NOT NULL
+    AND promo_code_usage(NEW.promo_code_id) >= v_promo.usage_limit THEN
+    RAISE EXCEPTION 'Promo code % has reached its usage limit.', v_promo.code
+      USING HINT = 'promo_invalid';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_enforce_promo_usage_limit ON orders;
+
+CREATE TRIGGER orders_enforce_promo_usage_limit
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_promo_usage_limit();
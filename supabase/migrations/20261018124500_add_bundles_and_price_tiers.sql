@@ -0,0 +1,158 @@
+/*
+  # Bundles and Quantity Price Tiers
+
+  1. New Tables
+    - `bundle_items`
+      - `id` (uuid, primary key)
+      - `bundle_id` (text) - The bundle product, references `products.id`
+      - `product_id` (text) - A product included in the bundle
+      - `quantity` (integer) - Units of that product in one bundle
+      - `sort_order` (integer) - Position in the "what's in the box" list
+
+  2. Changes
+    - Add `price_tiers` (jsonb) to `products`: an array of
+      `{ "min_quantity": 3, "percent_off": 10 }` entries. The best tier the
+      cart quantity reaches is taken off every unit of the product
+
+  3. Updated Functions
+    - `used_capacity` also counts units sold inside bundles
+    - `get_remaining_capacity` reports bundles limited by their contents
+    - `enforce_daily_capacity` checks every product in a bundle line
+
+  4. Security
+    - Enable RLS on `bundle_items`; contents are managed from the admin
+      screen (mirrors the `product_variants` policies). Rows can be deleted
+      because no order line references them
+
+  5. Notes
+    - A bundle is an ordinary product with its own price, photo and category;
+      its contents only drive the product page and capacity
+*/
+
+CREATE TABLE IF NOT EXISTS bundle_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_id text NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  product_id text NOT NULL REFERENCES products(id),
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  UNIQUE (bundle_id, product_id),
+  CHECK (bundle_id <> product_id)
+);
+
+CREATE INDEX IF NOT EXISTS bundle_items_product_id_idx ON bundle_items(product_id);
+
+ALTER TABLE bundle_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read bundle items"
+  ON bundle_items
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert bundle items"
+  ON bundle_items
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can delete bundle items"
+  ON bundle_items
+  FOR DELETE
+  USING (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'price_tiers'
+  ) THEN
+    ALTER TABLE products ADD COLUMN price_tiers jsonb NOT NULL DEFAULT '[]'::jsonb
+      CHECK (jsonb_typeof(price_tiers) = 'array');
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION used_capacity(p_product_id text, p_date date)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(oi.quantity * COALESCE(bi.quantity, 1)), 0)::integer
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  LEFT JOIN bundle_items bi ON bi.bundle_id = oi.product_id AND bi.product_id = p_product_id
+  WHERE (oi.product_id = p_product_id OR bi.id IS NOT NULL)
+    AND o.payment_status IN ('pending', 'pending_verification', 'confirmed', 'paid')
+    AND order_production_date(o.created_at) = p_date;
+$$;
+
+CREATE OR REPLACE FUNCTION get_remaining_capacity(p_date date DEFAULT order_production_date(now()))
+RETURNS TABLE (product_id text, remaining integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH direct AS (
+    SELECT p.id, GREATEST(p.daily_capacity - used_capacity(p.id, p_date), 0) AS remaining
+    FROM products p
+    WHERE p.daily_capacity IS NOT NULL AND p.archived_at IS NULL
+  ),
+  bundled AS (
+    SELECT bi.bundle_id AS id, MIN(d.remaining / bi.quantity) AS remaining
+    FROM bundle_items bi
+    JOIN direct d ON d.id = bi.product_id
+    GROUP BY bi.bundle_id
+  )
+  SELECT id, MIN(remaining)::integer
+  FROM (SELECT * FROM direct UNION ALL SELECT * FROM bundled) limits
+  GROUP BY id;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_daily_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line_name text;
+  v_limit record;
+  v_product products%ROWTYPE;
+  v_date date;
+  v_remaining integer;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_line_name FROM products WHERE id = NEW.product_id;
+  SELECT order_production_date(created_at) INTO v_date FROM orders WHERE id = NEW.order_id;
+
+  -- The product itself plus, for bundles, everything inside it. Rows are locked in id order
+  -- so concurrent checkouts of overlapping bundles cannot deadlock.
+  FOR v_limit IN
+    SELECT NEW.product_id AS product_id, 1 AS units
+    UNION ALL
+    SELECT bi.product_id, bi.quantity FROM bundle_items bi WHERE bi.bundle_id = NEW.product_id
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_product FROM products WHERE id = v_limit.product_id FOR UPDATE;
+
+    CONTINUE WHEN v_product.daily_capacity IS NULL;
+
+    -- Expressed in units of the ordered product, so customers see bundles left, not sticks.
+    v_remaining := (v_product.daily_capacity - used_capacity(v_limit.product_id, v_date)) / v_limit.units;
+
+    IF NEW.quantity > v_remaining THEN
+      IF v_remaining <= 0 THEN
+        RAISE EXCEPTION '% is sold out for today.', v_line_name
+          USING HINT = 'capacity_exceeded';
+      END IF;
+
+      RAISE EXCEPTION 'Only % left of % for today.', v_remaining, v_line_name
+        USING HINT = 'capacity_exceeded';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
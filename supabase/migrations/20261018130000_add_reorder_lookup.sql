@@ -0,0 +1,43 @@
+/*
+  # Reorder From a Previous Order
+
+  1. New Functions
+    - `get_order_lines(order_token)` - The lines of an order as the cart
+      stores them: product, variant, cake choices, note and quantity, plus
+      the price paid so the storefront can point out price changes
+
+  2. Security
+    - The function answers for whoever holds the order token. This is a
+      convenience, not privacy: the "Anyone can view orders by token" policy
+      on `orders` allows reading every order, token included
+
+  3. Notes
+    - Lines from orders placed before the product catalog existed have no
+      `product_id` and are left out
+    - Any order can be repeated, including cancelled and expired ones; the
+      storefront rebuilds the cart against today's menu and prices
+*/
+
+CREATE OR REPLACE FUNCTION get_order_lines(p_order_token text)
+RETURNS TABLE (
+  product_id text,
+  variant_id uuid,
+  customization jsonb,
+  note text,
+  price integer,
+  quantity integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT oi.product_id, oi.variant_id, oi.customization, oi.note, oi.price::integer, oi.quantity::integer
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  WHERE o.order_token = p_order_token
+    AND oi.product_id IS NOT NULL
+  ORDER BY oi.product_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_order_lines(text) TO anon, authenticated;
@@ -0,0 +1,85 @@
+/*
+  # Shareable Cart Links
+
+  1. New Tables
+    - `cart_shares`
+      - `code` (text, primary key) - Short code used in `/c/<code>` links
+      - `lines` (jsonb) - Snapshot of the cart in the storefront's stored
+        cart format: `{ "version": 1, "lines": [...] }`
+      - `created_at` (timestamptz)
+      - `expires_at` (timestamptz) - Links stop working after 14 days
+
+  2. New Functions
+    - `create_cart_share(lines)` - Stores a snapshot and returns its code
+    - `get_cart_share(code)` - The snapshot for a code, or NULL once it has
+      expired or when the code is unknown
+
+  3. Security
+    - Enable RLS on `cart_shares` with no policies: snapshots are only
+      reachable through the functions above, one code at a time, so shared
+      carts cannot be listed
+
+  4. Notes
+    - Snapshots hold product references and choices only; names and prices
+      come from the live catalog when the link is opened
+    - Expired snapshots are cleared whenever a new one is created
+    - Oversized snapshots are rejected with the HINT 'cart_share_invalid'
+*/
+
+CREATE TABLE IF NOT EXISTS cart_shares (
+  code text PRIMARY KEY,
+  lines jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '14 days'
+);
+
+ALTER TABLE cart_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION create_cart_share(p_lines jsonb)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- No 0/o, 1/l/i: codes get read out and retyped from chat messages.
+  v_alphabet constant text := 'abcdefghjkmnpqrstuvwxyz23456789';
+  v_code text;
+BEGIN
+  IF jsonb_typeof(p_lines -> 'lines') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_lines -> 'lines') = 0
+    OR jsonb_array_length(p_lines -> 'lines') > 100
+    OR octet_length(p_lines::text) > 50000
+  THEN
+    RAISE EXCEPTION 'This cart cannot be shared.'
+      USING HINT = 'cart_share_invalid';
+  END IF;
+
+  DELETE FROM cart_shares WHERE expires_at < now();
+
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::integer, 1), '')
+    INTO v_code
+    FROM generate_series(1, 8);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM cart_shares WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO cart_shares (code, lines) VALUES (v_code, p_lines);
+
+  RETURN v_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_cart_share(p_code text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lines FROM cart_shares WHERE code = lower(trim(p_code)) AND expires_at > now();
+$$;
+
+GRANT EXECUTE ON FUNCTION create_cart_share(jsonb) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_cart_share(text) TO anon, authenticated;
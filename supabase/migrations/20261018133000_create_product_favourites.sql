@@ -0,0 +1,74 @@
+/*
+  # Product Favourites
+
+  1. New Tables
+    - `product_favourites`
+      - `device_id` (uuid) - Anonymous id the storefront keeps per browser
+      - `product_id` (text) - References `products.id`
+      - `created_at` (timestamptz)
+    - One row per device per favourited product
+
+  2. New Functions
+    - `set_product_favourite(device_id, product_id, favourite)` - Adds or
+      removes a favourite for a device
+    - `get_favourite_counts()` - How many devices have favourited each
+      product, for the admin screen
+
+  3. Security
+    - Enable RLS on `product_favourites` with no policies: rows are only
+      written through `set_product_favourite` and only read as counts, so
+      one device's list cannot be read by another
+
+  4. Notes
+    - There are no customer accounts yet, so the list a customer sees lives
+      in their browser; these rows mirror it for counting and so a device's
+      favourites can be attached to an account once sign-in exists
+*/
+
+CREATE TABLE IF NOT EXISTS product_favourites (
+  device_id uuid NOT NULL,
+  product_id text NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (device_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS product_favourites_product_id_idx ON product_favourites(product_id);
+
+ALTER TABLE product_favourites ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION set_product_favourite(
+  p_device_id uuid,
+  p_product_id text,
+  p_favourite boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_favourite THEN
+    INSERT INTO product_favourites (device_id, product_id)
+    VALUES (p_device_id, p_product_id)
+    ON CONFLICT DO NOTHING;
+  ELSE
+    DELETE FROM product_favourites
+    WHERE device_id = p_device_id AND product_id = p_product_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_favourite_counts()
+RETURNS TABLE (product_id text, favourites integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT product_id, COUNT(*)::integer
+  FROM product_favourites
+  GROUP BY product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_product_favourite(uuid, text, boolean) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_favourite_counts() TO anon, authenticated;
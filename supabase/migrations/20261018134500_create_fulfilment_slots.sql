@@ -0,0 +1,248 @@
+/*
+  # Pickup Slots
+
+  1. New Tables
+    - `store_hours`
+      - `weekday` (smallint, primary key) - 0 = Sunday ... 6 = Saturday
+      - `opens_at`, `closes_at` (time) - Bakery-local opening hours; both
+        NULL when the kitchen is closed that day
+    - `fulfilment_slots`
+      - `id` (uuid, primary key)
+      - `weekday` (smallint) - Day of the week the slot repeats on
+      - `starts_at`, `ends_at` (time) - Bakery-local pickup window
+      - `capacity` (integer) - Orders the kitchen can hand over in the window
+      - `archived_at` (timestamptz) - Set when the slot is switched off
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `fulfilment_slot_id` (uuid), `fulfilment_date` (date) and
+      `fulfilment_starts_at` / `fulfilment_ends_at` (timestamptz) to `orders`
+
+  3. New Functions
+    - `fulfilment_slot_usage(slot_id, date)` - Orders booked into a slot on a
+      day
+    - `get_fulfilment_slots(days)` - Bookable slots for the coming days with
+      the orders still free in each, for the checkout slot picker
+    - `enforce_fulfilment_slot()` trigger on `orders` that checks the slot is
+      open, within store hours, still ahead and not full, and stamps the
+      window onto the order
+
+  4. Security
+    - Enable RLS on both tables; they are managed from the admin screen
+      (mirrors the `promo_codes` policies)
+
+  5. Notes
+    - Every slot is a pickup slot for now; the tables and columns are named
+      for fulfilment in general so other ways of receiving an order can be
+      booked the same way
+    - The window is copied onto the order so editing a slot later does not
+      move pickups that were already booked
+    - Usage counts the same order statuses as daily capacity
+    - Rejections carry HINT 'slot_unavailable' and a customer-facing message
+    - Seeds opening hours and two-hour slots for every day; adjust them from
+      the admin screen
+*/
+
+CREATE TABLE IF NOT EXISTS store_hours (
+  weekday smallint PRIMARY KEY CHECK (weekday BETWEEN 0 AND 6),
+  opens_at time,
+  closes_at time,
+  CHECK ((opens_at IS NULL) = (closes_at IS NULL)),
+  CHECK (opens_at IS NULL OR opens_at < closes_at)
+);
+
+CREATE TABLE IF NOT EXISTS fulfilment_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  starts_at time NOT NULL,
+  ends_at time NOT NULL,
+  capacity integer NOT NULL CHECK (capacity > 0),
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (starts_at < ends_at)
+);
+
+CREATE INDEX IF NOT EXISTS fulfilment_slots_weekday_idx ON fulfilment_slots(weekday, starts_at);
+
+ALTER TABLE store_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fulfilment_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read store hours"
+  ON store_hours
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert store hours"
+  ON store_hours
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update store hours"
+  ON store_hours
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can read fulfilment slots"
+  ON fulfilment_slots
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert fulfilment slots"
+  ON fulfilment_slots
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update fulfilment slots"
+  ON fulfilment_slots
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO store_hours (weekday, opens_at, closes_at)
+SELECT weekday, '10:00', '20:00'
+FROM generate_series(0, 6) AS weekday
+ON CONFLICT (weekday) DO NOTHING;
+
+INSERT INTO fulfilment_slots (weekday, starts_at, ends_at, capacity)
+SELECT weekday, make_time(start_hour, 0, 0), make_time(start_hour + 2, 0, 0), 10
+FROM generate_series(0, 6) AS weekday
+CROSS JOIN generate_series(10, 18, 2) AS start_hour
+WHERE NOT EXISTS (SELECT 1 FROM fulfilment_slots);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'fulfilment_slot_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN fulfilment_slot_id uuid REFERENCES fulfilment_slots(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'fulfilment_date'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN fulfilment_date date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'fulfilment_starts_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN fulfilment_starts_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'fulfilment_ends_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN fulfilment_ends_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS orders_fulfilment_slot_idx ON orders(fulfilment_slot_id, fulfilment_date);
+CREATE INDEX IF NOT EXISTS orders_fulfilment_starts_at_idx ON orders(fulfilment_starts_at);
+
+CREATE OR REPLACE FUNCTION fulfilment_slot_usage(p_slot_id uuid, p_date date)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer
+  FROM orders
+  WHERE fulfilment_slot_id = p_slot_id
+    AND fulfilment_date = p_date
+    AND payment_status IN ('pending', 'pending_verification', 'confirmed', 'paid');
+$$;
+
+CREATE OR REPLACE FUNCTION get_fulfilment_slots(p_days integer DEFAULT 7)
+RETURNS TABLE (
+  slot_id uuid,
+  slot_date date,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  remaining integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    d.day::date,
+    (d.day + s.starts_at) AT TIME ZONE 'Asia/Karachi',
+    (d.day + s.ends_at) AT TIME ZONE 'Asia/Karachi',
+    GREATEST(s.capacity - fulfilment_slot_usage(s.id, d.day::date), 0)
+  FROM generate_series(
+    order_production_date(now()),
+    order_production_date(now()) + LEAST(GREATEST(p_days, 1), 31) - 1,
+    interval '1 day'
+  ) AS d(day)
+  JOIN store_hours h ON h.weekday = EXTRACT(DOW FROM d.day)
+  JOIN fulfilment_slots s ON s.weekday = h.weekday
+  WHERE s.archived_at IS NULL
+    AND s.starts_at >= h.opens_at
+    AND s.ends_at <= h.closes_at
+    AND (d.day + s.starts_at) AT TIME ZONE 'Asia/Karachi' > now()
+  ORDER BY 3;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_fulfilment_slots(integer) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_fulfilment_slot()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot fulfilment_slots%ROWTYPE;
+  v_hours store_hours%ROWTYPE;
+  v_starts_at timestamptz;
+BEGIN
+  IF NEW.fulfilment_slot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locked so two checkouts cannot both take the last place in a slot.
+  SELECT * INTO v_slot FROM fulfilment_slots WHERE id = NEW.fulfilment_slot_id FOR UPDATE;
+  SELECT * INTO v_hours FROM store_hours WHERE weekday = v_slot.weekday;
+
+  IF v_slot.id IS NULL
+    OR v_slot.archived_at IS NOT NULL
+    OR NEW.fulfilment_date IS NULL
+    OR EXTRACT(DOW FROM NEW.fulfilment_date) <> v_slot.weekday
+    OR v_hours.opens_at IS NULL
+    OR v_slot.starts_at < v_hours.opens_at
+    OR v_slot.ends_at > v_hours.closes_at THEN
+    RAISE EXCEPTION 'That pickup time is no longer available. Please choose another.'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  v_starts_at := (NEW.fulfilment_date + v_slot.starts_at) AT TIME ZONE 'Asia/Karachi';
+
+  IF v_starts_at <= now() THEN
+    RAISE EXCEPTION 'That pickup time has already passed. Please choose another.'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  IF fulfilment_slot_usage(v_slot.id, NEW.fulfilment_date) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'That pickup time is fully booked. Please choose another.'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  NEW.fulfilment_starts_at := v_starts_at;
+  NEW.fulfilment_ends_at := (NEW.fulfilment_date + v_slot.ends_at) AT TIME ZONE 'Asia/Karachi';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_enforce_fulfilment_slot ON orders;
+
+CREATE TRIGGER orders_enforce_fulfilment_slot
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_fulfilment_slot();
@@ -0,0 +1,301 @@
+/*
+  # Lead Times and Delivery Windows
+
+  1. Changes
+    - Add `lead_time_hours` (integer) to `products` - Notice the kitchen needs
+      before an order containing the product can be collected or delivered
+    - Add `fulfilment` ('pickup' or 'delivery') to `fulfilment_slots`, so
+      delivery windows are booked the same way as pickup slots
+    - Add `fulfilment` (text) to `orders`
+
+  2. New Functions
+    - `get_fulfilment_slots(fulfilment, days, lead_time_hours)` - Bookable
+      slots for one fulfilment, leaving out those starting within the lead
+      time; replaces `get_fulfilment_slots(days)`
+    - `enforce_lead_time()` trigger on `order_items` that rejects lines whose
+      product needs more notice than the booked slot allows
+
+  3. Modified Functions
+    - `enforce_fulfilment_slot()` also checks the slot's fulfilment
+    - `order_fulfilment_date(order)` - Day an order counts against for daily
+      capacity: its booked date, or the day it was placed for older orders
+    - `used_capacity` and `enforce_daily_capacity` count orders by that day
+      instead of the day they were placed, so `get_remaining_capacity(date)`
+      answers for the booked day
+
+  4. Notes
+    - Existing slots become pickup slots; delivery windows are seeded for the
+      same hours and can be adjusted from the admin screen
+    - Seeds 24 hours' notice for whole cakes and 72 hours for customised cakes
+    - A bundle needs as much notice as the slowest product inside it
+    - Lead time rejections carry HINT 'lead_time'
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'lead_time_hours'
+  ) THEN
+    ALTER TABLE products
+      ADD COLUMN lead_time_hours integer NOT NULL DEFAULT 0 CHECK (lead_time_hours >= 0);
+
+    UPDATE products SET lead_time_hours = 24
+    WHERE category_id IN ('cheesecake', 'chiffon-cake', 'whipped-cream-cake');
+
+    UPDATE products SET lead_time_hours = 72 WHERE category_id = 'customised';
+  END IF;
+END $$;
+
+-- Slots
+
+DROP FUNCTION IF EXISTS get_fulfilment_slots(integer);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'fulfilment_slots' AND column_name = 'fulfilment'
+  ) THEN
+    ALTER TABLE fulfilment_slots
+      ADD COLUMN fulfilment text NOT NULL DEFAULT 'pickup' CHECK (fulfilment IN ('pickup', 'delivery'));
+    ALTER TABLE fulfilment_slots ALTER COLUMN fulfilment DROP DEFAULT;
+
+    INSERT INTO fulfilment_slots (fulfilment, weekday, starts_at, ends_at, capacity)
+    SELECT 'delivery', weekday, starts_at, ends_at, capacity
+    FROM fulfilment_slots
+    WHERE archived_at IS NULL;
+  END IF;
+END $$;
+
+-- Orders
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'fulfilment'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN fulfilment text CHECK (fulfilment IN ('pickup', 'delivery'));
+
+    UPDATE orders SET fulfilment = 'pickup' WHERE fulfilment_slot_id IS NOT NULL;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION get_fulfilment_slots(
+  p_fulfilment text,
+  p_days integer DEFAULT 7,
+  p_lead_time_hours integer DEFAULT 0
+)
+RETURNS TABLE (
+  slot_id uuid,
+  slot_date date,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  remaining integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    d.day::date,
+    (d.day + s.starts_at) AT TIME ZONE 'Asia/Karachi',
+    (d.day + s.ends_at) AT TIME ZONE 'Asia/Karachi',
+    GREATEST(s.capacity - fulfilment_slot_usage(s.id, d.day::date), 0)
+  FROM generate_series(
+    order_production_date(now()),
+    order_production_date(now()) + LEAST(GREATEST(p_days, 1), 31) - 1,
+    interval '1 day'
+  ) AS d(day)
+  JOIN store_hours h ON h.weekday = EXTRACT(DOW FROM d.day)
+  JOIN fulfilment_slots s ON s.weekday = h.weekday
+  WHERE s.fulfilment = p_fulfilment
+    AND s.archived_at IS NULL
+    AND s.starts_at >= h.opens_at
+    AND s.ends_at <= h.closes_at
+    AND (d.day + s.starts_at) AT TIME ZONE 'Asia/Karachi'
+      >= now() + GREATEST(p_lead_time_hours, 0) * interval '1 hour'
+  ORDER BY 3;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_fulfilment_slots(text, integer, integer) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_fulfilment_slot()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot fulfilment_slots%ROWTYPE;
+  v_hours store_hours%ROWTYPE;
+  v_starts_at timestamptz;
+BEGIN
+  IF NEW.fulfilment_slot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locked so two checkouts cannot both take the last place in a slot.
+  SELECT * INTO v_slot FROM fulfilment_slots WHERE id = NEW.fulfilment_slot_id FOR UPDATE;
+  SELECT * INTO v_hours FROM store_hours WHERE weekday = v_slot.weekday;
+
+  IF v_slot.id IS NULL
+    OR v_slot.archived_at IS NOT NULL
+    OR v_slot.fulfilment IS DISTINCT FROM NEW.fulfilment
+    OR NEW.fulfilment_date IS NULL
+    OR EXTRACT(DOW FROM NEW.fulfilment_date) <> v_slot.weekday
+    OR v_hours.opens_at IS NULL
+    OR v_slot.starts_at < v_hours.opens_at
+    OR v_slot.ends_at > v_hours.closes_at THEN
+    RAISE EXCEPTION 'That time is no longer available. Please choose another.'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  v_starts_at := (NEW.fulfilment_date + v_slot.starts_at) AT TIME ZONE 'Asia/Karachi';
+
+  IF v_starts_at <= now() THEN
+    RAISE EXCEPTION 'That time has already passed. Please choose another.'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  IF fulfilment_slot_usage(v_slot.id, NEW.fulfilment_date) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'That time is fully booked. Please choose another.'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  NEW.fulfilment_starts_at := v_starts_at;
+  NEW.fulfilment_ends_at := (NEW.fulfilment_date + v_slot.ends_at) AT TIME ZONE 'Asia/Karachi';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_enforce_fulfilment_slot ON orders;
+
+CREATE TRIGGER orders_enforce_fulfilment_slot
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_fulfilment_slot();
+
+CREATE OR REPLACE FUNCTION enforce_lead_time()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line_name text;
+  v_lead_time_hours integer;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = NEW.order_id;
+
+  IF v_order.fulfilment_starts_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_line_name FROM products WHERE id = NEW.product_id;
+
+  -- A bundle needs as much notice as the slowest product inside it.
+  SELECT MAX(p.lead_time_hours) INTO v_lead_time_hours
+  FROM products p
+  WHERE p.id = NEW.product_id
+    OR p.id IN (SELECT bi.product_id FROM bundle_items bi WHERE bi.bundle_id = NEW.product_id);
+
+  IF v_order.fulfilment_starts_at < v_order.created_at + v_lead_time_hours * interval '1 hour' THEN
+    RAISE EXCEPTION '% needs % hours'' notice. Please choose a later time.',
+      v_line_name, v_lead_time_hours
+      USING HINT = 'lead_time';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_items_enforce_lead_time ON order_items;
+
+CREATE TRIGGER order_items_enforce_lead_time
+  BEFORE INSERT ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_lead_time();
+
+-- Daily capacity
+
+CREATE OR REPLACE FUNCTION order_fulfilment_date(p_order orders)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(p_order.fulfilment_date, order_production_date(p_order.created_at));
+$$;
+
+CREATE OR REPLACE FUNCTION used_capacity(p_product_id text, p_date date)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(oi.quantity * COALESCE(bi.quantity, 1)), 0)::integer
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  LEFT JOIN bundle_items bi ON bi.bundle_id = oi.product_id AND bi.product_id = p_product_id
+  WHERE (oi.product_id = p_product_id OR bi.id IS NOT NULL)
+    AND o.payment_status IN ('pending', 'pending_verification', 'confirmed', 'paid')
+    AND order_fulfilment_date(o) = p_date;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_daily_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line_name text;
+  v_limit record;
+  v_product products%ROWTYPE;
+  v_date date;
+  v_remaining integer;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_line_name FROM products WHERE id = NEW.product_id;
+  SELECT order_fulfilment_date(o) INTO v_date FROM orders o WHERE o.id = NEW.order_id;
+
+  -- The product itself plus, for bundles, everything inside it. Rows are locked in id order
+  -- so concurrent checkouts of overlapping bundles cannot deadlock.
+  FOR v_limit IN
+    SELECT NEW.product_id AS product_id, 1 AS units
+    UNION ALL
+    SELECT bi.product_id, bi.quantity FROM bundle_items bi WHERE bi.bundle_id = NEW.product_id
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_product FROM products WHERE id = v_limit.product_id FOR UPDATE;
+
+    CONTINUE WHEN v_product.daily_capacity IS NULL;
+
+    -- Expressed in units of the ordered product, so customers see bundles left, not sticks.
+    v_remaining := (v_product.daily_capacity - used_capacity(v_limit.product_id, v_date)) / v_limit.units;
+
+    IF NEW.quantity > v_remaining THEN
+      IF v_remaining <= 0 THEN
+        RAISE EXCEPTION '% is sold out for that day.', v_line_name
+          USING HINT = 'capacity_exceeded';
+      END IF;
+
+      RAISE EXCEPTION 'Only % left of % for that day.', v_remaining, v_line_name
+        USING HINT = 'capacity_exceeded';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,74 @@
+/*
+  # Delivery Zones
+
+  1. New Tables
+    - `delivery_zones`
+      - `id` (uuid, primary key)
+      - `name` (text) - Shown to customers and on the admin screen, e.g. "Central"
+      - `areas` (text[]) - Sectors and areas the zone covers, e.g. {F-7, Blue Area}
+      - `fee` (integer) - Delivery charge in PKR
+      - `min_order_total` (integer) - Minimum cart subtotal in PKR for delivery
+      - `archived_at` (timestamptz) - Set when the zone is no longer served
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `delivery_zone_id` (uuid) to `orders`
+
+  3. Security
+    - Enable RLS on `delivery_zones`; zones are managed from the admin screen
+      (mirrors the `promo_codes` policies)
+
+  4. Notes
+    - Checkout picks the zone whose area appears in the customer's address;
+      addresses outside every active zone cannot be delivered to
+    - The create-order and quote-order functions match the zone again and
+      charge its fee, replacing the flat 300 PKR delivery charge
+    - Seed zones cover Islamabad sectors around the F-7 kitchen
+*/
+
+CREATE TABLE IF NOT EXISTS delivery_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (name <> ''),
+  areas text[] NOT NULL CHECK (cardinality(areas) > 0),
+  fee integer NOT NULL CHECK (fee >= 0),
+  min_order_total integer NOT NULL DEFAULT 0 CHECK (min_order_total >= 0),
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE delivery_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read delivery zones"
+  ON delivery_zones
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert delivery zones"
+  ON delivery_zones
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update delivery zones"
+  ON delivery_zones
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO delivery_zones (name, areas, fee, min_order_total)
+SELECT seed.name, seed.areas, seed.fee, seed.min_order_total
+FROM (VALUES
+  ('Central', ARRAY['F-5', 'F-6', 'F-7', 'F-8', 'G-6', 'G-7', 'Blue Area'], 200, 0),
+  ('Inner sectors', ARRAY['E-7', 'E-11', 'F-10', 'F-11', 'G-8', 'G-9', 'G-10', 'G-11', 'I-8'], 300, 1500),
+  ('Outer sectors', ARRAY['G-13', 'G-14', 'I-9', 'I-10', 'DHA Phase 2', 'Bahria Town'], 500, 3000)
+) AS seed(name, areas, fee, min_order_total)
+WHERE NOT EXISTS (SELECT 1 FROM delivery_zones);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_zone_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_zone_id uuid REFERENCES delivery_zones(id);
+  END IF;
+END $$;
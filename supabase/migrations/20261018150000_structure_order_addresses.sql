@@ -0,0 +1,40 @@
+/*
+  # Structured Order Addresses
+
+  1. Changes
+    - Change `orders.address` from text to jsonb with the fields captured at
+      checkout:
+      - `house` (text) - House or flat number
+      - `street` (text)
+      - `area` (text) - Area or sector, used to pick the delivery zone
+      - `city` (text)
+      - `landmark` (text) - Optional
+      - `location` ({ lat, lng } or null) - Optional map pin
+
+  2. Notes
+    - Existing free-text addresses are kept whole in `street`, with the other
+      fields left empty, so they read the same as before wherever addresses
+      are formatted
+    - The create-order function validates the fields before inserting
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'address' AND data_type = 'text'
+  ) THEN
+    ALTER TABLE orders
+      ALTER COLUMN address TYPE jsonb USING jsonb_build_object(
+        'house', '',
+        'street', address,
+        'area', '',
+        'city', '',
+        'landmark', '',
+        'location', NULL
+      );
+
+    ALTER TABLE orders
+      ADD CONSTRAINT orders_address_is_object CHECK (jsonb_typeof(address) = 'object');
+  END IF;
+END $$;
@@ -0,0 +1,66 @@
+/*
+  # Admin Sign-in
+
+  1. New Functions
+    - `is_admin()` - Whether the request comes from a signed-in user whose
+      `app_metadata.role` is 'admin'
+
+  2. Security
+    - `promo_codes` can only be read, created and edited by admins; the
+      "Anyone can ..." policies are dropped
+    - `get_promo_code_usage()` only answers admins
+
+  3. Notes
+    - The admin screen signs in with Supabase Auth. Give an account access
+      from the SQL editor, since users cannot change their own app_metadata:
+        UPDATE auth.users
+        SET raw_app_meta_data = raw_app_meta_data || '{"role": "admin"}'
+        WHERE email = 'owner@example.com';
+    - The storefront never reads `promo_codes`: the quote-order and
+      create-order functions check the code a customer typed with the
+      service role
+*/
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Anyone can read promo codes" ON promo_codes;
+DROP POLICY IF EXISTS "Anyone can insert promo codes" ON promo_codes;
+DROP POLICY IF EXISTS "Anyone can update promo codes" ON promo_codes;
+
+CREATE POLICY "Admins can read promo codes"
+  ON promo_codes
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert promo codes"
+  ON promo_codes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update promo codes"
+  ON promo_codes
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION get_promo_code_usage()
+RETURNS TABLE (promo_code_id uuid, uses integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id, promo_code_usage(id) FROM promo_codes WHERE is_admin();
+$$;
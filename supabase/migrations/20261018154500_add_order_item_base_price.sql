@@ -0,0 +1,53 @@
+/*
+  # Undiscounted Prices for Reorders
+
+  1. Changes
+    - Add `base_price` (integer) to `order_items`: the unit price before any
+      quantity tier. `price` stays the unit price actually charged
+    - `get_order_lines` returns `base_price` as `price`, so a reorder compares
+      like with like against the catalog and no longer reports every tiered
+      line as "Prices updated"
+
+  2. Notes
+    - Lines stored before this column existed fall back to `price`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'base_price'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN base_price integer;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION get_order_lines(p_order_token text)
+RETURNS TABLE (
+  product_id text,
+  variant_id uuid,
+  customization jsonb,
+  note text,
+  price integer,
+  quantity integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    oi.product_id,
+    oi.variant_id,
+    oi.customization,
+    oi.note,
+    COALESCE(oi.base_price, oi.price)::integer,
+    oi.quantity::integer
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  WHERE o.order_token = p_order_token
+    AND oi.product_id IS NOT NULL
+  ORDER BY oi.product_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_order_lines(text) TO anon, authenticated;
@@ -0,0 +1,83 @@
+/*
+  # Validate Review Submissions
+
+  1. Changes
+    - `reviews.author_name` must be non-blank and at most 60 characters
+    - `submit_review` checks the name, rating and body itself, so customers
+      get a readable message with the HINT 'review_not_allowed' instead of a
+      constraint violation
+
+  2. Notes
+    - The constraint is added NOT VALID: rows stored before it existed are
+      left as they are, and every new or edited row is checked
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'reviews_author_name_check'
+  ) THEN
+    ALTER TABLE reviews
+      ADD CONSTRAINT reviews_author_name_check
+      CHECK (char_length(trim(author_name)) BETWEEN 1 AND 60) NOT VALID;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION submit_review(
+  p_order_token text,
+  p_product_id text,
+  p_author_name text,
+  p_rating integer,
+  p_body text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_review_id uuid;
+BEGIN
+  IF char_length(trim(coalesce(p_author_name, ''))) NOT BETWEEN 1 AND 60 THEN
+    RAISE EXCEPTION 'Please enter your name, up to 60 characters'
+      USING HINT = 'review_not_allowed';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Please choose a rating from 1 to 5 stars'
+      USING HINT = 'review_not_allowed';
+  END IF;
+
+  IF char_length(trim(coalesce(p_body, ''))) > 500 THEN
+    RAISE EXCEPTION 'Reviews can be at most 500 characters'
+      USING HINT = 'review_not_allowed';
+  END IF;
+
+  SELECT o.id INTO v_order_id
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  WHERE o.order_token = p_order_token
+    AND oi.product_id = p_product_id
+    AND o.payment_status IN ('confirmed', 'paid')
+  LIMIT 1;
+
+  IF v_order_id IS NULL THEN
+    RAISE EXCEPTION 'This order does not include that product, or its payment is not confirmed yet'
+      USING HINT = 'review_not_allowed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM reviews WHERE order_id = v_order_id AND product_id = p_product_id) THEN
+    RAISE EXCEPTION 'You have already reviewed this product for this order'
+      USING HINT = 'review_not_allowed';
+  END IF;
+
+  INSERT INTO reviews (product_id, order_id, author_name, rating, body)
+  VALUES (p_product_id, v_order_id, trim(p_author_name), p_rating, trim(coalesce(p_body, '')))
+  RETURNING id INTO v_review_id;
+
+  RETURN v_review_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_review(text, text, text, integer, text) TO anon, authenticated;
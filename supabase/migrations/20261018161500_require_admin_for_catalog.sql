@@ -0,0 +1,96 @@
+/*
+  # Admin-only Catalog Changes
+
+  1. Security
+    - `categories`, `products`, `product_variants`, `bundle_items` and
+      `delivery_zones` can only be changed by admins (see `is_admin()`); the
+      "Anyone can ..." insert, update and delete policies are dropped
+    - Only admins can upload to the `product-images` bucket
+
+  2. Notes
+    - The order functions price orders from these tables, so while anyone
+      could edit them a customer could set their own prices or delivery
+      charge before checking out
+    - Everyone can still read them; the storefront menu depends on it
+*/
+
+DROP POLICY IF EXISTS "Anyone can insert categories" ON categories;
+DROP POLICY IF EXISTS "Anyone can update categories" ON categories;
+DROP POLICY IF EXISTS "Anyone can insert products" ON products;
+DROP POLICY IF EXISTS "Anyone can update products" ON products;
+DROP POLICY IF EXISTS "Anyone can insert product variants" ON product_variants;
+DROP POLICY IF EXISTS "Anyone can update product variants" ON product_variants;
+DROP POLICY IF EXISTS "Anyone can insert bundle items" ON bundle_items;
+DROP POLICY IF EXISTS "Anyone can delete bundle items" ON bundle_items;
+DROP POLICY IF EXISTS "Anyone can insert delivery zones" ON delivery_zones;
+DROP POLICY IF EXISTS "Anyone can update delivery zones" ON delivery_zones;
+DROP POLICY IF EXISTS "Allow anyone to upload product images" ON storage.objects;
+
+CREATE POLICY "Admins can insert categories"
+  ON categories
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update categories"
+  ON categories
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can insert products"
+  ON products
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update products"
+  ON products
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can insert product variants"
+  ON product_variants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update product variants"
+  ON product_variants
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can insert bundle items"
+  ON bundle_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete bundle items"
+  ON bundle_items
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert delivery zones"
+  ON delivery_zones
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update delivery zones"
+  ON delivery_zones
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Allow admins to upload product images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'product-images' AND is_admin());
@@ -0,0 +1,17 @@
+/*
+  # Admin-only Review Moderation
+
+  1. Security
+    - Only admins can update `reviews` (see `is_admin()`); the "Anyone can
+      update reviews" policy is dropped, since it let any visitor publish
+      their own review or rewrite someone else's
+*/
+
+DROP POLICY IF EXISTS "Anyone can update reviews" ON reviews;
+
+CREATE POLICY "Admins can update reviews"
+  ON reviews
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());